@@ -27,9 +27,18 @@ import {
   exportDictionary,
   getStatistics,
   updateStatistics,
+  recordCorrection,
 } from '../shared/storage';
 import { DEFAULT_STATISTICS } from '../shared/types';
 
+/**
+ * Correction history writes, one after another
+ * Each write reads the history and stores an updated copy, so two picks
+ * arriving together would otherwise both start from the same history and
+ * one count would be lost.
+ */
+let correctionWrites: Promise<unknown> = Promise.resolve();
+
 /**
  * Handle incoming messages from popup, options, or content scripts
  */
@@ -64,7 +73,7 @@ async function handleMessage(
       }
 
       case 'ADD_TO_DICTIONARY': {
-        const added = await addToDictionary(message.word);
+        const added = await addToDictionary(message.word, message.caseSensitive);
         // Broadcast dictionary change to all tabs so they can update highlights
         broadcastDictionaryChange();
         return { success: true, data: added };
@@ -102,6 +111,16 @@ async function handleMessage(
         return { success: true, data: stats };
       }
 
+      case 'RECORD_CORRECTION': {
+        const write = correctionWrites.then(() => recordCorrection(message.misspelling, message.correction));
+        // A failed write mustn't block the ones queued after it
+        correctionWrites = write.catch(() => undefined);
+        await write;
+        // Other tabs pick up the learned correction on their next check
+        broadcastCorrectionsChange();
+        return { success: true };
+      }
+
       default:
         return { success: false, error: 'Unknown message type' };
     }
@@ -166,6 +185,25 @@ async function broadcastDictionaryChange(): Promise<void> {
   }
 }
 
+/**
+ * Broadcast correction history changes to all content scripts
+ */
+async function broadcastCorrectionsChange(): Promise<void> {
+  const tabs = await chrome.tabs.query({});
+  
+  for (const tab of tabs) {
+    if (!tab.id) continue;
+    
+    try {
+      await chrome.tabs.sendMessage(tab.id, {
+        type: 'CORRECTIONS_CHANGED',
+      });
+    } catch {
+      // Tab might not have content script loaded, ignore
+    }
+  }
+}
+
 // Set up message listener
 chrome.runtime.onMessage.addListener(
   (message: ExtensionMessage, sender, sendResponse) => {
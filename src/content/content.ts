@@ -8,12 +8,29 @@
  * - Display custom context menu for corrections
  */
 
-import { findMisspellings, Misspelling } from '../shared/dictionary';
-import { findGrammarErrors, grammarErrorToMisspelling } from '../shared/grammar';
+import {
+  registerBaseDictionary,
+  hasBaseDictionary,
+  registerLanguagePack,
+  hasLanguagePack,
+  buildCorrectionHistory,
+  buildCaseSensitiveWords,
+  CorrectionHistory,
+  CaseSensitiveWords,
+  BASE_WORD_PACK,
+} from '../shared/dictionary';
+import { loadLanguagePack } from '../shared/hunspell';
+import { loadWordPack } from '../shared/wordpack';
+import { CheckSettings } from '../shared/checker';
+import { createIncrementalChecker, IncrementalChecker } from '../shared/incremental';
+import { createCheckClient, CheckClient } from '../shared/checkworker';
+import spellCheckWorkerUrl from './spellcheck.worker?worker&url';
+import { normalizeWord } from '../shared/tokenizer';
+import { getAutoCorrection } from '../shared/autocorrect';
 import { incrementWordsChecked, incrementMisspellingsFound, incrementCorrectionsMade, incrementWordsAdded } from '../shared/statistics';
 import { setupSpellCheckShortcuts, handleKeyboardEvent } from '../shared/keyboard';
 import { showToast } from '../shared/toast';
-import { GlobalSettings, SiteSettings, STORAGE_KEYS, DEFAULT_GLOBAL_SETTINGS, DEFAULT_SITE_SETTINGS } from '../shared/types';
+import { GlobalSettings, SiteSettings, Issue, DictionaryEntry, IssueCategory, STORAGE_KEYS, DEFAULT_GLOBAL_SETTINGS, DEFAULT_SITE_SETTINGS } from '../shared/types';
 
 // ============================================================================
 // Configuration
@@ -28,20 +45,43 @@ const HIGHLIGHT_CONTAINER_CLASS = 'fsa-highlight-container';
 // ============================================================================
 
 interface FieldState {
+  /** Identifies the field's checks to the check worker */
+  id: number;
   element: HTMLElement;
+  /** Checks the field on the page when there is no worker */
+  checker: IncrementalChecker;
   container?: HTMLElement;
   lastText: string;
-  misspellings: Misspelling[];
+  misspellings: Issue[];
   debounceTimer?: ReturnType<typeof setTimeout>;
 }
 
 let globalSettings: GlobalSettings = DEFAULT_GLOBAL_SETTINGS;
 let siteSettings: SiteSettings = DEFAULT_SITE_SETTINGS;
 let customDictionaryWords: Set<string> = new Set();
+let caseSensitiveWords: CaseSensitiveWords = new Map();
+let correctionHistory: CorrectionHistory = new Map();
 const fieldStates = new Map<HTMLElement, FieldState>();
+let nextFieldId = 1;
+let baseWords: Set<string> | null = null;
+const languageWords = new Map<string, Set<string>>();
+const failedLanguages = new Set<string>(); // Languages whose pack couldn't be loaded, reported once
+let checkClient: CheckClient | null = null; // Null until started, or when workers can't run here
+let checkRevision = 0; // Bumped when settings or word lists change, invalidating cached results
 let activeContextMenu: HTMLElement | null = null;
 let ignoredWords: Set<string> = new Set(); // Session-only ignores
 
+/** Issues less likely than this to be real are underlined more faintly */
+const UNCERTAIN_CONFIDENCE = 0.7;
+
+/** How each category of issue is named in the menu and to screen readers */
+const ISSUE_LABELS: Record<IssueCategory, string> = {
+  spelling: 'Spelling',
+  grammar: 'Grammar',
+  style: 'Style',
+  punctuation: 'Punctuation',
+};
+
 // ============================================================================
 // Initialization
 // ============================================================================
@@ -53,6 +93,9 @@ async function initialize(): Promise<void> {
     // Load settings
     await loadSettings();
     await loadCustomDictionary();
+    await loadCorrectionHistory();
+    await loadBaseDictionary();
+    await loadLanguage();
     
     console.log('FSA: Settings loaded', { 
       globalEnabled: globalSettings.enabled, 
@@ -67,6 +110,9 @@ async function initialize(): Promise<void> {
       return;
     }
     
+    // Check off the page's main thread where possible
+    await startCheckWorker();
+    
     // Set up observers and listeners
     setupMutationObserver();
     setupEventListeners();
@@ -146,13 +192,118 @@ async function loadSettings(): Promise<void> {
 async function loadCustomDictionary(): Promise<void> {
   try {
     const result = await chrome.storage.sync.get(STORAGE_KEYS.CUSTOM_DICTIONARY);
-    const entries = result[STORAGE_KEYS.CUSTOM_DICTIONARY] || [];
-    customDictionaryWords = new Set(entries.map((e: { word: string }) => e.word.toLowerCase()));
+    const entries: DictionaryEntry[] = result[STORAGE_KEYS.CUSTOM_DICTIONARY] || [];
+    customDictionaryWords = new Set(entries.map((e) => normalizeWord(e.word).toLowerCase()));
+    caseSensitiveWords = buildCaseSensitiveWords(entries);
   } catch (error) {
     console.error('FSA: Error loading dictionary:', error);
   }
 }
 
+/**
+ * Load corrections the user picked before (shared by all tabs)
+ */
+async function loadCorrectionHistory(): Promise<void> {
+  try {
+    const result = await chrome.storage.local.get(STORAGE_KEYS.CORRECTION_HISTORY);
+    correctionHistory = buildCorrectionHistory(result[STORAGE_KEYS.CORRECTION_HISTORY] || []);
+  } catch (error) {
+    console.error('FSA: Error loading correction history:', error);
+  }
+}
+
+/**
+ * Load the built-in word list from its bundled word pack
+ * Runs before loadLanguage, as English language packs are merged with it.
+ */
+async function loadBaseDictionary(): Promise<void> {
+  if (hasBaseDictionary()) return;
+  
+  const words = await loadWordPack(BASE_WORD_PACK);
+  if (words) {
+    baseWords = words;
+    registerBaseDictionary(words);
+    checkClient?.registerBaseDictionary(words);
+    console.log(`FSA: Loaded built-in word list (${words.size} words)`);
+  }
+}
+
+/**
+ * Load the Hunspell language pack for the selected language
+ * English falls back to the built-in word list when no pack is bundled.
+ * Any other language without a pack is reported and left unchecked, as
+ * checking it against English would flag every word.
+ */
+async function loadLanguage(): Promise<void> {
+  const language = globalSettings.language;
+  if (hasLanguagePack(language) || failedLanguages.has(language)) return;
+  
+  let words: Set<string> | null = null;
+  try {
+    words = await loadLanguagePack(language);
+  } catch (error) {
+    console.error('FSA: Error loading language pack:', error);
+    if (isEnglishLanguage(language)) {
+      failedLanguages.add(language);
+      showToast(`Couldn't load the ${language} dictionary, using the built-in English word list`, 'error', 6000);
+    }
+  }
+  
+  if (words) {
+    languageWords.set(language, words);
+    registerLanguagePack(language, words);
+    checkClient?.registerLanguagePack(language, words);
+    console.log(`FSA: Loaded ${language} language pack (${words.size} words)`);
+  } else if (!isEnglishLanguage(language)) {
+    failedLanguages.add(language);
+    showToast(`Couldn't load the ${language} dictionary, so spelling isn't checked`, 'error', 6000);
+  }
+}
+
+/**
+ * Check if a language is covered by the built-in English word list
+ */
+function isEnglishLanguage(language: string): boolean {
+  return language.startsWith('en');
+}
+
+/**
+ * Start the worker that runs checks off the page's main thread
+ * Extension scripts can't be workers of a web page directly, so the bundled
+ * worker is started from a blob. Where the page's CSP forbids that, checks
+ * keep running on the page.
+ */
+async function startCheckWorker(): Promise<void> {
+  if (checkClient) return;
+  
+  try {
+    const response = await fetch(chrome.runtime.getURL(spellCheckWorkerUrl));
+    const source = new Blob([await response.text()], { type: 'text/javascript' });
+    const url = URL.createObjectURL(source);
+    const worker = new Worker(url);
+    URL.revokeObjectURL(url);
+    worker.addEventListener('error', handleCheckWorkerError);
+    
+    checkClient = createCheckClient(worker);
+    if (baseWords) checkClient.registerBaseDictionary(baseWords);
+    for (const [language, words] of languageWords) {
+      checkClient.registerLanguagePack(language, words);
+    }
+  } catch (error) {
+    console.warn('FSA: Spell check worker unavailable, checking on the page:', error);
+  }
+}
+
+/**
+ * Fall back to checking on the page when the worker fails
+ */
+function handleCheckWorkerError(event: ErrorEvent): void {
+  console.warn('FSA: Spell check worker failed, checking on the page:', event.message);
+  checkClient?.dispose();
+  checkClient = null;
+  recheckAllFields();
+}
+
 /**
  * Check if hostname matches any disabled pattern
  */
@@ -367,7 +518,9 @@ function attachToField(element: HTMLElement): void {
   console.log('FSA: Attaching to field', element.tagName, element.className || element.id || 'unnamed');
   
   const state: FieldState = {
+    id: nextFieldId++,
     element,
+    checker: createIncrementalChecker(),
     lastText: '',
     misspellings: [],
   };
@@ -394,10 +547,11 @@ function detachFromField(element: HTMLElement): void {
   const state = fieldStates.get(element);
   if (!state) return;
   
-  // Clear timers
+  // Clear timers and any check in progress
   if (state.debounceTimer) {
     clearTimeout(state.debounceTimer);
   }
+  checkClient?.release(state.id);
   
   // Remove highlight container
   if (state.container) {
@@ -437,9 +591,9 @@ function handleInput(event: Event): void {
       // Find misspelling that ends just before cursor
       for (const misspelling of state.misspellings) {
         if (misspelling.endIndex <= cursorPos && misspelling.endIndex >= cursorPos - 5) {
-          // Auto-correct if there's a good suggestion
-          if (misspelling.suggestions.length > 0) {
-            const suggestion = misspelling.suggestions[0];
+          // Auto-correct known typos and confident suggestions only
+          const suggestion = getAutoCorrection(misspelling, globalSettings.autoCorrections);
+          if (suggestion) {
             if (element instanceof HTMLInputElement || element instanceof HTMLTextAreaElement) {
               const newText = text.substring(0, misspelling.startIndex) + 
                             suggestion + 
@@ -524,6 +678,13 @@ async function performSpellCheck(state: FieldState): Promise<void> {
     return;
   }
   
+  // Without a word list every word would be flagged
+  const language = globalSettings.language;
+  if (!hasLanguagePack(language) && (!hasBaseDictionary() || !isEnglishLanguage(language))) {
+    clearHighlights(state);
+    return;
+  }
+  
   const text = getFieldText(state.element);
   
   // Skip if text hasn't changed
@@ -536,16 +697,24 @@ async function performSpellCheck(state: FieldState): Promise<void> {
     incrementWordsChecked(wordCount).catch(() => {});
   }
   
-  // Find misspellings
-  const allMisspellings = findMisspellings(text, customDictionaryWords);
+  // Find misspellings, doubled words and (if enabled) grammar errors
+  const settings: CheckSettings = {
+    customDictionary: customDictionaryWords,
+    language: globalSettings.language,
+    corrections: correctionHistory,
+    caseSensitiveWords,
+    domains: globalSettings.domainDictionaries,
+    keyboardLayout: globalSettings.keyboardLayout,
+    tokenRules: globalSettings.tokenRules,
+    realWordCheck: globalSettings.realWordCheck,
+    grammarCheck: globalSettings.grammarCheck,
+  };
+  const allMisspellings = checkClient
+    ? await checkClient.check(state.id, text, settings, checkRevision)
+    : state.checker.check(text, settings, checkRevision);
   
-  // Find grammar errors if enabled
-  if (globalSettings.grammarCheck) {
-    const grammarErrors = findGrammarErrors(text);
-    for (const error of grammarErrors) {
-      allMisspellings.push(grammarErrorToMisspelling(error));
-    }
-  }
+  // Superseded by a newer check, or the field went away meanwhile
+  if (!allMisspellings || fieldStates.get(state.element) !== state) return;
   
   // Filter out ignored words
   state.misspellings = allMisspellings.filter(
@@ -566,6 +735,17 @@ async function performSpellCheck(state: FieldState): Promise<void> {
   updateHighlights(state);
 }
 
+/**
+ * Re-check every field from scratch after settings or word lists change
+ */
+function recheckAllFields(): void {
+  checkRevision++;
+  for (const state of fieldStates.values()) {
+    state.lastText = '';
+    performSpellCheck(state);
+  }
+}
+
 // ============================================================================
 // Highlight Rendering
 // ============================================================================
@@ -579,6 +759,26 @@ function clearHighlights(state: FieldState): void {
   }
 }
 
+/**
+ * Mark a highlight with its issue: classes for styling, and the details the
+ * context menu shows
+ */
+function describeHighlight(highlight: HTMLElement, issue: Issue): void {
+  highlight.className = `fsa-misspelling fsa-${issue.category} fsa-${issue.severity}`;
+  if (issue.confidence < UNCERTAIN_CONFIDENCE) highlight.classList.add('fsa-uncertain');
+  highlight.dataset.word = issue.word;
+  highlight.dataset.suggestions = JSON.stringify(issue.suggestions);
+  highlight.dataset.category = issue.category;
+  highlight.dataset.ruleId = issue.ruleId;
+  highlight.dataset.severity = issue.severity;
+  highlight.dataset.confidence = issue.confidence.toString();
+  highlight.dataset.explanation = issue.explanation;
+  highlight.setAttribute(
+    'aria-label',
+    `${ISSUE_LABELS[issue.category]}: ${issue.word}. ${issue.explanation}. Right-click for suggestions.`
+  );
+}
+
 /**
  * Update highlights for a field
  */
@@ -636,7 +836,7 @@ function updateContentEditableHighlights(state: FieldState): void {
     
     for (const pos of positions) {
       const highlight = document.createElement('div');
-      highlight.className = 'fsa-misspelling';
+      describeHighlight(highlight, misspelling);
       highlight.style.cssText = `
         position: absolute;
         left: ${pos.left - rect.left}px;
@@ -646,12 +846,9 @@ function updateContentEditableHighlights(state: FieldState): void {
         pointer-events: auto;
         cursor: pointer;
       `;
-      highlight.dataset.word = misspelling.word;
-      highlight.dataset.suggestions = JSON.stringify(misspelling.suggestions);
       
       // Accessibility
       highlight.setAttribute('role', 'button');
-      highlight.setAttribute('aria-label', `Misspelled word: ${misspelling.word}. Right-click for suggestions.`);
       highlight.setAttribute('tabindex', '0');
       
       highlight.addEventListener('contextmenu', handleHighlightContextMenu);
@@ -844,7 +1041,7 @@ function updateInputHighlights(state: FieldState): void {
     
     // Create highlight element
     const highlight = document.createElement('div');
-    highlight.className = 'fsa-misspelling';
+    describeHighlight(highlight, misspelling);
     highlight.style.cssText = `
       position: absolute;
       left: ${Math.max(0, left + parseInt(computedStyle.paddingLeft))}px;
@@ -854,14 +1051,11 @@ function updateInputHighlights(state: FieldState): void {
       pointer-events: auto;
       cursor: pointer;
     `;
-    highlight.dataset.word = misspelling.word;
-    highlight.dataset.suggestions = JSON.stringify(misspelling.suggestions);
     highlight.dataset.start = misspelling.startIndex.toString();
     highlight.dataset.end = misspelling.endIndex.toString();
     
     // Accessibility
     highlight.setAttribute('role', 'button');
-    highlight.setAttribute('aria-label', `Misspelled word: ${misspelling.word}. Right-click for suggestions.`);
     highlight.setAttribute('tabindex', '0');
     
     highlight.addEventListener('contextmenu', handleHighlightContextMenu);
@@ -923,6 +1117,9 @@ function showContextMenu(x: number, y: number, highlightElement: HTMLElement): v
   
   const word = highlightElement.dataset.word || '';
   const suggestions: string[] = JSON.parse(highlightElement.dataset.suggestions || '[]');
+  const category = (highlightElement.dataset.category || 'spelling') as IssueCategory;
+  const explanation = highlightElement.dataset.explanation || '';
+  const isRepeat = highlightElement.dataset.ruleId === 'repeated-word';
   
   // Create menu
   const menu = document.createElement('div');
@@ -937,6 +1134,14 @@ function showContextMenu(x: number, y: number, highlightElement: HTMLElement): v
   wordLabel.textContent = word;
   menu.appendChild(wordLabel);
   
+  // Why it was flagged
+  if (explanation) {
+    const explanationLabel = document.createElement('div');
+    explanationLabel.className = 'fsa-context-menu-explanation';
+    explanationLabel.textContent = `${ISSUE_LABELS[category]} · ${explanation}`;
+    menu.appendChild(explanationLabel);
+  }
+  
   // Add suggestions
   if (suggestions.length > 0) {
     const suggestionsLabel = document.createElement('div');
@@ -947,10 +1152,10 @@ function showContextMenu(x: number, y: number, highlightElement: HTMLElement): v
     for (const suggestion of suggestions.slice(0, 5)) {
       const item = document.createElement('div');
       item.className = 'fsa-context-menu-item fsa-context-menu-suggestion';
-      item.textContent = suggestion;
+      item.textContent = isRepeat ? 'Remove duplicate' : suggestion;
       item.setAttribute('role', 'menuitem');
       item.setAttribute('tabindex', '0');
-      item.setAttribute('aria-label', `Replace with ${suggestion}`);
+      item.setAttribute('aria-label', isRepeat ? `Remove the repeated "${suggestion}"` : `Replace with ${suggestion}`);
       item.addEventListener('click', () => {
         applySuggestion(highlightElement, suggestion);
         hideContextMenu();
@@ -996,25 +1201,28 @@ function showContextMenu(x: number, y: number, highlightElement: HTMLElement): v
   });
   menu.appendChild(ignoreItem);
   
-  // Add to dictionary action
-  const addItem = document.createElement('div');
-  addItem.className = 'fsa-context-menu-item fsa-context-menu-action';
-  addItem.innerHTML = `<span class="fsa-context-menu-icon">📖</span> Add to Dictionary`;
-  addItem.setAttribute('role', 'menuitem');
-  addItem.setAttribute('tabindex', '0');
-  addItem.setAttribute('aria-label', `Add ${word} to custom dictionary`);
-  addItem.addEventListener('click', () => {
-    addWordToDictionary(word);
-    hideContextMenu();
-  });
-  addItem.addEventListener('keydown', (e) => {
-    if (e.key === 'Enter' || e.key === ' ') {
-      e.preventDefault();
+  // Add to dictionary action (spelling issues on single words only, not a pair
+  // like "with out")
+  if (category === 'spelling' && !/\s/.test(word)) {
+    const addItem = document.createElement('div');
+    addItem.className = 'fsa-context-menu-item fsa-context-menu-action';
+    addItem.innerHTML = `<span class="fsa-context-menu-icon">📖</span> Add to Dictionary`;
+    addItem.setAttribute('role', 'menuitem');
+    addItem.setAttribute('tabindex', '0');
+    addItem.setAttribute('aria-label', `Add ${word} to custom dictionary`);
+    addItem.addEventListener('click', () => {
       addWordToDictionary(word);
       hideContextMenu();
-    }
-  });
-  menu.appendChild(addItem);
+    });
+    addItem.addEventListener('keydown', (e) => {
+      if (e.key === 'Enter' || e.key === ' ') {
+        e.preventDefault();
+        addWordToDictionary(word);
+        hideContextMenu();
+      }
+    });
+    menu.appendChild(addItem);
+  }
   
   // Position menu
   document.body.appendChild(menu);
@@ -1132,6 +1340,11 @@ async function applySuggestion(highlightElement: HTMLElement, suggestion: string
       // Update statistics
       incrementCorrectionsMade(1).catch(() => {});
       
+      // Remember the choice so it is suggested first next time
+      if (highlightElement.dataset.ruleId !== 'repeated-word') {
+        rememberCorrection(word, suggestion);
+      }
+      
       // Re-run spell check
       scheduleSpellCheck(state);
       break;
@@ -1139,6 +1352,22 @@ async function applySuggestion(highlightElement: HTMLElement, suggestion: string
   }
 }
 
+/**
+ * Record a picked suggestion locally and in the shared history
+ */
+function rememberCorrection(misspelling: string, correction: string): void {
+  const key = normalizeWord(misspelling).toLowerCase();
+  const chosen = correctionHistory.get(key) ?? new Map<string, number>();
+  const value = normalizeWord(correction).toLowerCase();
+  chosen.set(value, (chosen.get(value) ?? 0) + 1);
+  correctionHistory.set(key, chosen);
+  checkRevision++;
+  
+  chrome.runtime.sendMessage({ type: 'RECORD_CORRECTION', misspelling, correction }).catch((error) => {
+    console.error('FSA: Error recording correction:', error);
+  });
+}
+
 /**
  * Escape special regex characters
  */
@@ -1153,9 +1382,7 @@ function ignoreWord(word: string): void {
   ignoredWords.add(word.toLowerCase());
   
   // Re-check all fields to remove highlights for this word
-  for (const state of fieldStates.values()) {
-    performSpellCheck(state);
-  }
+  recheckAllFields();
 }
 
 /**
@@ -1163,8 +1390,18 @@ function ignoreWord(word: string): void {
  */
 async function addWordToDictionary(word: string): Promise<void> {
   try {
+    // A case-sensitive entry keeps its capitalization ("Github" stays flagged
+    // while "GitHub" is listed)
+    const key = normalizeWord(word).toLowerCase();
+    const exact = caseSensitiveWords.get(key);
+    if (exact !== undefined) {
+      showToast(`"${exact}" is already in your dictionary, written that way`, 'info');
+      return;
+    }
+    
+    // Sent without a case sensitivity, so an existing entry keeps its own
     await chrome.runtime.sendMessage({ type: 'ADD_TO_DICTIONARY', word });
-    customDictionaryWords.add(word.toLowerCase());
+    customDictionaryWords.add(key);
     
     // Update statistics
     incrementWordsAdded(1).catch(() => {});
@@ -1173,9 +1410,7 @@ async function addWordToDictionary(word: string): Promise<void> {
     showToast(`Added "${word}" to dictionary`, 'success');
     
     // Re-check all fields
-    for (const state of fieldStates.values()) {
-      performSpellCheck(state);
-    }
+    recheckAllFields();
   } catch (error) {
     console.error('FSA: Error adding to dictionary:', error);
     showToast('Failed to add word to dictionary', 'error');
@@ -1263,9 +1498,7 @@ function setupEventListeners(): void {
       
       // Re-check all fields with new settings
       if (isEnabled()) {
-        for (const state of fieldStates.values()) {
-          performSpellCheck(state);
-        }
+        loadLanguage().then(recheckAllFields);
       } else {
         // Disable - clear all highlights
         for (const state of fieldStates.values()) {
@@ -1274,12 +1507,12 @@ function setupEventListeners(): void {
       }
     }
     
+    if (message.type === 'CORRECTIONS_CHANGED') {
+      loadCorrectionHistory().then(recheckAllFields);
+    }
+    
     if (message.type === 'DICTIONARY_CHANGED') {
-      loadCustomDictionary().then(() => {
-        for (const state of fieldStates.values()) {
-          performSpellCheck(state);
-        }
-      });
+      loadCustomDictionary().then(recheckAllFields);
     }
   });
   
@@ -0,0 +1,15 @@
+/**
+ * Fountain Spell Assist - Spell Check Worker
+ *
+ * Runs checks for the content script off the page's main thread. The content
+ * script sends the word lists once and a check per field edit (see
+ * shared/checkworker.ts).
+ */
+
+import { createCheckHost, CheckRequest } from '../shared/checkworker';
+
+// Typed as a Worker for its single-argument postMessage; this is the worker's global scope
+const scope = self as unknown as Worker;
+
+const handleRequest = createCheckHost((response) => scope.postMessage(response));
+scope.onmessage = (event: MessageEvent<CheckRequest>) => handleRequest(event.data);
@@ -3,8 +3,11 @@
  * 
  * Full settings interface including:
  * - Global enable/disable
- * - Language selection
+ * - Language and keyboard layout selection
+ * - Domain dictionaries (medical, legal, software, finance)
+ * - Token rules (acronyms, numbers, versions, IDs)
  * - Custom dictionary management (add, remove, import, export)
+ * - Auto-correct table
  * - Disabled site patterns
  */
 
@@ -13,24 +16,50 @@ import {
   getGlobalSettings,
   setGlobalSettings,
   getDictionary,
+  addToDictionary,
   removeFromDictionary,
   importDictionary,
   exportDictionary,
   getStatistics,
   resetStatistics,
 } from '../shared/messaging';
-import type { GlobalSettings, DictionaryEntry, Statistics } from '../shared/types';
+import { DEFAULT_TOKEN_RULES } from '../shared/types';
+import type { GlobalSettings, DictionaryEntry, DomainDictionary, KeyboardLayout, Statistics, TokenRules } from '../shared/types';
 
 type ModalType = 'import' | 'export' | null;
 type ToastType = { message: string; type: 'success' | 'error' } | null;
 
+/** Domain word packs offered on the options page */
+const DOMAIN_DICTIONARIES: { id: DomainDictionary; label: string; description: string }[] = [
+  { id: 'medical', label: 'Medical', description: 'Conditions, procedures and drugs (tachycardia, biopsy)' },
+  { id: 'legal', label: 'Legal', description: 'Contracts and litigation (indemnify, estoppel)' },
+  { id: 'software', label: 'Software Engineering', description: 'Tools and programming terms (kubectl, idempotent)' },
+  { id: 'finance', label: 'Finance', description: 'Accounting and markets (amortization, EBITDA)' },
+];
+
+/** Token rules offered as toggles on the options page */
+const TOKEN_RULE_TOGGLES: { id: Exclude<keyof TokenRules, 'maxAcronymLength'>; label: string; description: string }[] = [
+  { id: 'alphanumerics', label: 'Letters with Digits', description: 'Codes like HIPAA2024, B2B and mp3' },
+  { id: 'ordinals', label: 'Ordinals', description: 'Numbers like 1st, 22nd and 113th' },
+  { id: 'units', label: 'Units', description: 'Measurements like 10kg, 5ms and 2.4GHz' },
+  { id: 'versions', label: 'Versions', description: 'Version strings like v2.3.1 and 1.0.0-beta' },
+  { id: 'identifiers', label: 'Hex and IDs', description: 'Hex numbers, hashes, UUIDs and ticket IDs like 0xFF, 3f2a9c1 and JIRA-142' },
+];
+
+/** Acronym lengths offered on the options page; 0 turns acronyms off */
+const ACRONYM_LENGTHS = [0, 2, 3, 4, 5, 6, 8, 10];
+
 export function Options() {
   const [loading, setLoading] = useState(true);
   const [settings, setSettings] = useState<GlobalSettings | null>(null);
   const [dictionary, setDictionary] = useState<DictionaryEntry[]>([]);
   const [statistics, setStatistics] = useState<Statistics | null>(null);
   const [newPattern, setNewPattern] = useState('');
+  const [newTypo, setNewTypo] = useState('');
+  const [newCorrection, setNewCorrection] = useState('');
   const [dictionarySearch, setDictionarySearch] = useState('');
+  const [newWord, setNewWord] = useState('');
+  const [newWordCaseSensitive, setNewWordCaseSensitive] = useState(false);
   const [selectedWords, setSelectedWords] = useState<Set<string>>(new Set());
   const [modal, setModal] = useState<ModalType | 'import-settings' | 'export-settings'>(null);
   const [importText, setImportText] = useState('');
@@ -107,6 +136,78 @@ export function Options() {
     showToast('Pattern removed', 'success');
   }, [settings, updateSettings, showToast]);
 
+  // Add auto-correct entry
+  const addAutoCorrection = useCallback(async () => {
+    if (!settings) return;
+    
+    const typo = newTypo.trim().toLowerCase();
+    const correction = newCorrection.trim();
+    if (!typo || !correction) return;
+    
+    await updateSettings({ autoCorrections: { ...settings.autoCorrections, [typo]: correction } });
+    setNewTypo('');
+    setNewCorrection('');
+    showToast('Auto-correct entry added', 'success');
+  }, [settings, newTypo, newCorrection, updateSettings, showToast]);
+
+  // Remove auto-correct entry
+  const removeAutoCorrection = useCallback(async (typo: string) => {
+    if (!settings) return;
+    
+    const autoCorrections = { ...settings.autoCorrections };
+    delete autoCorrections[typo];
+    await updateSettings({ autoCorrections });
+    showToast('Auto-correct entry removed', 'success');
+  }, [settings, updateSettings, showToast]);
+
+  // Turn a domain dictionary on or off
+  const toggleDomain = useCallback(async (domain: DomainDictionary) => {
+    if (!settings) return;
+    
+    const domainDictionaries = settings.domainDictionaries.includes(domain)
+      ? settings.domainDictionaries.filter((d) => d !== domain)
+      : [...settings.domainDictionaries, domain];
+    await updateSettings({ domainDictionaries });
+  }, [settings, updateSettings]);
+
+  // Change one token rule
+  const updateTokenRules = useCallback(async (updates: Partial<TokenRules>) => {
+    if (!settings) return;
+    
+    await updateSettings({ tokenRules: { ...DEFAULT_TOKEN_RULES, ...settings.tokenRules, ...updates } });
+  }, [settings, updateSettings]);
+
+  // Add word to dictionary
+  const addWord = useCallback(async () => {
+    const word = newWord.trim();
+    if (!word) return;
+    
+    try {
+      const added = await addToDictionary(word, newWordCaseSensitive);
+      if (!added) {
+        showToast('Word already exists', 'error');
+        return;
+      }
+      setDictionary(await getDictionary());
+      setNewWord('');
+      showToast('Word added', 'success');
+    } catch (error) {
+      console.error('Failed to add word:', error);
+      showToast('Failed to add word', 'error');
+    }
+  }, [newWord, newWordCaseSensitive, showToast]);
+
+  // Toggle whether a word's capitalization is enforced
+  const toggleCaseSensitive = useCallback(async (entry: DictionaryEntry) => {
+    try {
+      await addToDictionary(entry.word, !entry.caseSensitive);
+      setDictionary(await getDictionary());
+    } catch (error) {
+      console.error('Failed to update word:', error);
+      showToast('Failed to update word', 'error');
+    }
+  }, [showToast]);
+
   // Remove word from dictionary
   const removeWord = useCallback(async (word: string) => {
     try {
@@ -272,7 +373,7 @@ export function Options() {
             <div className="setting-info">
               <div className="setting-label">Language</div>
               <div className="setting-description">
-                Dictionary language for spell checking
+                Dictionary language for spell checking (uses a bundled Hunspell pack when present)
               </div>
             </div>
             <div className="select-wrapper">
@@ -282,6 +383,29 @@ export function Options() {
               >
                 <option value="en-US">English (US)</option>
                 <option value="en-GB">English (UK)</option>
+                <option value="en-CA">English (Canada)</option>
+                <option value="en-AU">English (Australia)</option>
+              </select>
+            </div>
+          </div>
+
+          <div className="setting-row">
+            <div className="setting-info">
+              <div className="setting-label">Keyboard Layout</div>
+              <div className="setting-description">
+                Fixes for keys next to the one you meant are suggested first
+              </div>
+            </div>
+            <div className="select-wrapper">
+              <select
+                value={settings?.keyboardLayout || 'qwerty'}
+                onChange={(e) => updateSettings({ keyboardLayout: e.target.value as KeyboardLayout })}
+              >
+                <option value="qwerty">QWERTY</option>
+                <option value="qwertz">QWERTZ (German)</option>
+                <option value="azerty">AZERTY (French)</option>
+                <option value="dvorak">Dvorak</option>
+                <option value="colemak">Colemak</option>
               </select>
             </div>
           </div>
@@ -313,6 +437,20 @@ export function Options() {
               aria-label="Toggle grammar checking"
             />
           </div>
+
+          <div className="setting-row">
+            <div className="setting-info">
+              <div className="setting-label">Context Checking</div>
+              <div className="setting-description">
+                Flag correctly spelled words that don't fit the sentence ("a letter form my bank")
+              </div>
+            </div>
+            <button
+              className={`toggle-switch ${settings?.realWordCheck ? 'active' : ''}`}
+              onClick={() => updateSettings({ realWordCheck: !settings?.realWordCheck })}
+              aria-label="Toggle context checking"
+            />
+          </div>
         </div>
       </section>
 
@@ -400,6 +538,31 @@ export function Options() {
             </div>
           </div>
 
+          {/* Add word */}
+          <div className="dictionary-search">
+            <div className="pattern-input-row">
+              <input
+                type="text"
+                className="pattern-input"
+                placeholder="Add a word, e.g. GitHub"
+                value={newWord}
+                onChange={(e) => setNewWord(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && addWord()}
+              />
+              <label className="dictionary-checkbox dictionary-case">
+                <input
+                  type="checkbox"
+                  checked={newWordCaseSensitive}
+                  onChange={(e) => setNewWordCaseSensitive(e.target.checked)}
+                />
+                Match case
+              </label>
+              <button className="btn btn-add" onClick={addWord}>
+                Add
+              </button>
+            </div>
+          </div>
+
           {/* Search */}
           {dictionary.length > 0 && (
             <div className="dictionary-search">
@@ -443,6 +606,15 @@ export function Options() {
                       />
                       <span className="dictionary-word">{entry.word}</span>
                     </label>
+                    <button
+                      className={`btn-icon dictionary-case-toggle${entry.caseSensitive ? ' active' : ''}`}
+                      onClick={() => toggleCaseSensitive(entry)}
+                      title={entry.caseSensitive ? 'Capitalization is enforced' : 'Any capitalization is accepted'}
+                      aria-label={`Match case for ${entry.word}`}
+                      aria-pressed={!!entry.caseSensitive}
+                    >
+                      Aa
+                    </button>
                     <button
                       className="btn-icon"
                       onClick={() => removeWord(entry.word)}
@@ -457,6 +629,122 @@ export function Options() {
         </div>
       </section>
 
+      {/* Domain Dictionaries */}
+      <section className="section">
+        <h2 className="section-title">Domain Dictionaries</h2>
+        <div className="section-card">
+          {DOMAIN_DICTIONARIES.map(({ id, label, description }) => (
+            <div key={id} className="setting-row">
+              <div className="setting-info">
+                <div className="setting-label">{label}</div>
+                <div className="setting-description">{description}</div>
+              </div>
+              <button
+                className={`toggle-switch ${settings?.domainDictionaries.includes(id) ? 'active' : ''}`}
+                onClick={() => toggleDomain(id)}
+                aria-label={`Toggle ${label.toLowerCase()} dictionary`}
+              />
+            </div>
+          ))}
+        </div>
+      </section>
+
+      {/* Token Rules */}
+      <section className="section">
+        <h2 className="section-title">Accepted Tokens</h2>
+        <div className="section-card">
+          <div className="setting-row">
+            <div className="setting-info">
+              <div className="setting-label">Acronyms</div>
+              <div className="setting-description">
+                All-caps words up to this length are accepted; longer ones are spell checked
+              </div>
+            </div>
+            <div className="select-wrapper">
+              <select
+                value={settings?.tokenRules.maxAcronymLength ?? DEFAULT_TOKEN_RULES.maxAcronymLength}
+                onChange={(e) => updateTokenRules({ maxAcronymLength: Number(e.target.value) })}
+              >
+                {ACRONYM_LENGTHS.map((length) => (
+                  <option key={length} value={length}>
+                    {length === 0 ? 'Check all acronyms' : `Up to ${length} letters`}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          {TOKEN_RULE_TOGGLES.map(({ id, label, description }) => {
+            const enabled = settings?.tokenRules[id] ?? DEFAULT_TOKEN_RULES[id];
+            return (
+              <div key={id} className="setting-row">
+                <div className="setting-info">
+                  <div className="setting-label">{label}</div>
+                  <div className="setting-description">{description}</div>
+                </div>
+                <button
+                  className={`toggle-switch ${enabled ? 'active' : ''}`}
+                  onClick={() => updateTokenRules({ [id]: !enabled })}
+                  aria-label={`Toggle ${label.toLowerCase()}`}
+                />
+              </div>
+            );
+          })}
+        </div>
+      </section>
+
+      {/* Auto-Correct Table */}
+      <section className="section">
+        <h2 className="section-title">Auto-Correct Table</h2>
+        <div className="section-card">
+          <div className="patterns-list">
+            {Object.keys(settings?.autoCorrections ?? {}).length === 0 ? (
+              <div className="dictionary-empty">
+                <p>No custom auto-corrections.</p>
+                <p>Common typos like "teh" are built in. Add your own below; other misspellings are only auto-corrected when the fix is clear.</p>
+              </div>
+            ) : (
+              Object.entries(settings?.autoCorrections ?? {}).map(([typo, correction]) => (
+                <div key={typo} className="pattern-item">
+                  <span className="pattern-value">{typo} → {correction}</span>
+                  <button
+                    className="btn-icon"
+                    onClick={() => removeAutoCorrection(typo)}
+                    aria-label={`Remove ${typo}`}
+                  >
+                    ×
+                  </button>
+                </div>
+              ))
+            )}
+          </div>
+          
+          <div className="pattern-add">
+            <div className="pattern-input-row">
+              <input
+                type="text"
+                className="pattern-input"
+                placeholder="Typo, e.g. wrok"
+                value={newTypo}
+                onChange={(e) => setNewTypo(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && addAutoCorrection()}
+              />
+              <input
+                type="text"
+                className="pattern-input"
+                placeholder="Correction, e.g. work"
+                value={newCorrection}
+                onChange={(e) => setNewCorrection(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && addAutoCorrection()}
+              />
+              <button className="btn btn-add" onClick={addAutoCorrection}>
+                Add
+              </button>
+            </div>
+          </div>
+        </div>
+      </section>
+
       {/* Disabled Patterns */}
       <section className="section">
         <h2 className="section-title">Disabled Sites</h2>
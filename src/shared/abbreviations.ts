@@ -0,0 +1,36 @@
+/**
+ * Fountain Spell Assist - Abbreviations
+ *
+ * Abbreviations written with periods ("e.g.", "Ph.D.", "approx.") are read as
+ * one token, so their letters aren't checked as separate words. Abbreviations
+ * that are also ordinary words ("no.", "fig.", "may") are left out: at the end
+ * of a sentence they are far more likely to be the word.
+ */
+
+/** Known abbreviations, lowercase, with their periods */
+export const ABBREVIATIONS: ReadonlySet<string> = new Set([
+  // Latin
+  'a.d.', 'al.', 'b.c.', 'ca.', 'cf.', 'e.g.', 'etc.', 'ibid.', 'i.e.', 'n.b.', 'p.s.',
+  'q.e.d.', 'r.i.p.', 'viz.', 'vs.',
+  // Titles and degrees
+  'b.a.', 'b.sc.', 'capt.', 'dr.', 'gov.', 'jr.', 'lt.', 'm.a.', 'm.d.', 'm.sc.', 'mr.',
+  'mrs.', 'ms.', 'ph.d.', 'prof.', 'rep.', 'sgt.', 'sr.', 'st.',
+  // Organizations and places
+  'ave.', 'blvd.', 'co.', 'corp.', 'd.c.', 'dept.', 'e.u.', 'inc.', 'ltd.', 'mt.', 'rd.',
+  'u.k.', 'u.n.', 'u.s.', 'u.s.a.',
+  // Dates and times
+  'a.m.', 'p.m.', 'jan.', 'feb.', 'apr.', 'aug.', 'sept.', 'oct.', 'nov.', 'dec.',
+  // Writing and measurement
+  'a.k.a.', 'approx.', 'eq.', 'est.', 'hr.', 'hrs.', 'lb.', 'lbs.', 'misc.', 'oz.', 'pp.',
+  'r.s.v.p.', 'vol.',
+]);
+
+/**
+ * Check if a dotted word is a known abbreviation
+ * The final period may be left off when there are others ("e.g", "Ph.D"), but
+ * not on its own: "ca" is more likely a typo than "ca." without its period.
+ */
+export function isAbbreviation(word: string): boolean {
+  const lower = word.toLowerCase();
+  return ABBREVIATIONS.has(lower) || (lower.includes('.') && ABBREVIATIONS.has(`${lower}.`));
+}
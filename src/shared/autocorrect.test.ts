@@ -0,0 +1,69 @@
+/**
+ * Fountain Spell Assist - Auto-Correct Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { AUTO_CORRECT_CONFIDENCE, getAutoCorrection } from './autocorrect';
+import { findMisspellings } from './dictionary';
+import { checkText } from './checker';
+import { Issue } from './types';
+
+/** A spelling issue for a typed word */
+function issue(word: string, suggestions: string[], details: Partial<Issue> = {}): Issue {
+  return {
+    word,
+    startIndex: 0,
+    endIndex: word.length,
+    suggestions,
+    category: 'spelling',
+    ruleId: 'unknown-word',
+    severity: 'error',
+    confidence: 0.5,
+    explanation: 'Not in the dictionary',
+    ...details,
+  };
+}
+
+describe('getAutoCorrection', () => {
+  it('uses the table, keeping capitalization', () => {
+    expect(getAutoCorrection(issue('teh', ['ten']))).toBe('the');
+    expect(getAutoCorrection(issue('Teh', []))).toBe('The');
+    expect(getAutoCorrection(issue('TEH', []))).toBe('THE');
+  });
+
+  it('lets user entries extend and override the table', () => {
+    expect(getAutoCorrection(issue('wrok', []), { wrok: 'work' })).toBe('work');
+    expect(getAutoCorrection(issue('teh', []), { teh: 'tech' })).toBe('tech');
+  });
+
+  it('ignores inherited object keys', () => {
+    expect(getAutoCorrection(issue('constructor', []))).toBeNull();
+  });
+
+  it('falls back to confident suggestions only', () => {
+    const [misspelling] = findMisspellings('diffrent');
+    expect(getAutoCorrection(misspelling)).toBe('different');
+    expect(getAutoCorrection(issue('cst', ['cat', 'cut'], { confidence: 0.33 }))).toBeNull();
+  });
+
+  it('gates on the confidence of the issue', () => {
+    expect(getAutoCorrection(issue('wrk', ['work'], { confidence: AUTO_CORRECT_CONFIDENCE }))).toBe('work');
+    expect(getAutoCorrection(issue('wrk', ['work'], { confidence: AUTO_CORRECT_CONFIDENCE - 0.01 }))).toBeNull();
+  });
+
+  it('fixes miscapitalized custom words', () => {
+    const fix = issue('Github', ['GitHub'], { ruleId: 'custom-capitalization', confidence: 1 });
+    expect(getAutoCorrection(fix)).toBe('GitHub');
+  });
+
+  it('never replaces joins, real-word errors, regional spellings or grammar', () => {
+    const sure = { confidence: 1 };
+    expect(getAutoCorrection(issue('with out', ['without'], { ...sure, ruleId: 'split-word' }))).toBeNull();
+    expect(getAutoCorrection(issue('form', ['from'], { ...sure, ruleId: 'real-word' }))).toBeNull();
+    expect(getAutoCorrection(issue('colour', ['color'], { ...sure, ruleId: 'regional-spelling' }))).toBeNull();
+    expect(getAutoCorrection(issue('then', ['than'], { ...sure, category: 'grammar', ruleId: 'then-than' }))).toBeNull();
+
+    const issues = checkText('We are now here and with out it.', { customDictionary: new Set(), grammarCheck: true });
+    expect(issues.map((found) => getAutoCorrection(found))).not.toContain('without');
+  });
+});
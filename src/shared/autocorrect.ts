@@ -0,0 +1,41 @@
+/**
+ * Fountain Spell Assist - Auto-Correct
+ *
+ * Decides when a misspelling is safe to replace without asking. The table of
+ * common typos ("teh" -> "the", see misspellings.ts) always applies, and users
+ * can add their own pairs from the options page. Anything else is only
+ * corrected when the issue itself is sure of its top suggestion (see the
+ * confidence findMisspellings gives each issue).
+ *
+ * Only plain misspellings are ever replaced: joins of two valid words ("with
+ * out"), real-word errors, regional spellings, grammar and style issues are
+ * always left for the user to decide.
+ */
+
+import { Issue } from './types';
+import { COMMON_MISSPELLINGS } from './misspellings';
+import { matchCapitalization } from './dictionary';
+
+/** Minimum issue confidence for auto-correcting a suggestion that is not in the table */
+export const AUTO_CORRECT_CONFIDENCE = 0.8;
+
+/** Spelling rules whose issues auto-correct may fix */
+const AUTO_CORRECT_RULES = new Set(['common-typo', 'custom-capitalization', 'unknown-word']);
+
+/**
+ * Get the replacement auto-correct should make for an issue, if any
+ * User entries take precedence over the built-in table.
+ */
+export function getAutoCorrection(issue: Issue, userTable: Record<string, string> = {}): string | null {
+  if (issue.category !== 'spelling' || !AUTO_CORRECT_RULES.has(issue.ruleId)) return null;
+
+  const { word, suggestions } = issue;
+  const lowerWord = word.toLowerCase();
+  const tableHit = Object.prototype.hasOwnProperty.call(userTable, lowerWord)
+    ? userTable[lowerWord]
+    : COMMON_MISSPELLINGS.get(lowerWord);
+  if (tableHit) return matchCapitalization(word, tableHit);
+
+  if (suggestions.length > 0 && issue.confidence >= AUTO_CORRECT_CONFIDENCE) return suggestions[0];
+  return null;
+}
@@ -0,0 +1,51 @@
+/**
+ * Fountain Spell Assist - Suggestion Lookup Benchmark
+ *
+ * Compares BK-tree lookups with a linear scan over a ~100k word dictionary,
+ * built by inflecting the built-in word list. Run with `npm run bench`.
+ */
+
+import { bench, describe } from 'vitest';
+import { createSuggestionIndex, searchIndex } from './bktree';
+import { levenshteinDistance, getBuiltInDictionary } from './dictionary';
+import { attachSuffix } from './morphology';
+
+const PREFIXES = ['', 're', 'un', 'pre', 'over', 'de', 'mis'];
+const SUFFIXES = ['', 's', 'ed', 'ing', 'er', 'ly', 'ness', 'ment', 'able', 'less'];
+
+/** Inflect the built-in words until the list reaches the target size */
+function buildLargeDictionary(size: number): string[] {
+  const base = [...getBuiltInDictionary()].filter((w) => /^[a-z]+$/.test(w));
+  const words = new Set<string>();
+
+  for (const prefix of PREFIXES) {
+    for (const suffix of SUFFIXES) {
+      for (const word of base) {
+        words.add(prefix + attachSuffix(word, suffix));
+        if (words.size === size) return [...words];
+      }
+    }
+  }
+  return [...words];
+}
+
+const words = buildLargeDictionary(100_000);
+const index = createSuggestionIndex(words, levenshteinDistance);
+const queries = ['recieve', 'acommodate', 'definately', 'seperately', 'occurence'];
+
+/** A linear scan takes a while per run, so keep the sample small */
+const options = { iterations: 5, time: 0, warmupIterations: 1, warmupTime: 0 };
+
+describe('suggestion lookup (100k words, distance 2)', () => {
+  bench('linear scan', () => {
+    for (const query of queries) {
+      words.filter((w) => levenshteinDistance(query, w) <= 2);
+    }
+  }, options);
+
+  bench('BK-tree', () => {
+    for (const query of queries) {
+      searchIndex(index, query, 2);
+    }
+  }, options);
+});
@@ -0,0 +1,61 @@
+/**
+ * Fountain Spell Assist - Suggestion Index Tests
+ *
+ * Checks that BK-tree lookups match a linear scan of the word list.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { createSuggestionIndex, addToIndex, removeFromIndex, searchIndex } from './bktree';
+import { levenshteinDistance, getBuiltInDictionary } from './dictionary';
+
+/** Reference implementation: scan every word */
+function linearSearch(words: Iterable<string>, word: string, maxDistance: number): string[] {
+  return [...words].filter((w) => levenshteinDistance(word, w) <= maxDistance).sort();
+}
+
+function indexedSearch(index: ReturnType<typeof createSuggestionIndex>, word: string, maxDistance: number) {
+  return searchIndex(index, word, maxDistance).map((m) => m.word).sort();
+}
+
+describe('searchIndex', () => {
+  const dictionary = getBuiltInDictionary();
+  const index = createSuggestionIndex(dictionary, levenshteinDistance);
+
+  it('finds the same words as a linear scan', () => {
+    for (const word of ['helo', 'wrold', 'recieve', 'teh', 'quikc', 'accomodate']) {
+      expect(indexedSearch(index, word, 2)).toEqual(linearSearch(dictionary, word, 2));
+    }
+  });
+
+  it('reports distances', () => {
+    const match = searchIndex(index, 'helo', 1).find((m) => m.word === 'hello');
+    expect(match?.distance).toBe(1);
+  });
+
+  it('counts indexed words', () => {
+    expect(index.size).toBe(dictionary.size);
+  });
+});
+
+describe('incremental updates', () => {
+  it('adds and removes words', () => {
+    const index = createSuggestionIndex(['cat', 'bat'], levenshteinDistance);
+
+    addToIndex(index, 'hat');
+    expect(indexedSearch(index, 'rat', 1)).toEqual(['bat', 'cat', 'hat']);
+
+    removeFromIndex(index, 'bat');
+    expect(indexedSearch(index, 'rat', 1)).toEqual(['cat', 'hat']);
+    expect(index.size).toBe(2);
+
+    addToIndex(index, 'bat');
+    expect(indexedSearch(index, 'rat', 1)).toEqual(['bat', 'cat', 'hat']);
+    expect(index.size).toBe(3);
+  });
+
+  it('ignores duplicates and unknown removals', () => {
+    const index = createSuggestionIndex(['cat', 'cat'], levenshteinDistance);
+    removeFromIndex(index, 'dog');
+    expect(index.size).toBe(1);
+  });
+});
@@ -0,0 +1,116 @@
+/**
+ * Fountain Spell Assist - Suggestion Index
+ *
+ * BK-tree over dictionary words for fast "all words within edit distance N"
+ * lookups. Built once per dictionary and updated incrementally as custom
+ * words are added or removed, so suggestions don't scan the whole word list.
+ *
+ * A BK-tree keeps memory linear in the dictionary size, which matters for a
+ * content script that is loaded into every tab.
+ */
+
+interface BKNode {
+  word: string;
+  /** Insertion sequence number, used to break ties between equal distances */
+  order: number;
+  /** Children keyed by their distance to this node's word */
+  children: Map<number, BKNode>;
+}
+
+export interface SuggestionIndex {
+  root: BKNode | null;
+  /** Words removed since the tree was built (BK-trees can't delete nodes) */
+  removed: Set<string>;
+  /** Number of searchable words */
+  size: number;
+  /** Next insertion sequence number */
+  nextOrder: number;
+  /** Metric used to build the tree - must satisfy the triangle inequality */
+  distance: (a: string, b: string) => number;
+}
+
+/**
+ * Create an index over a list of words
+ */
+export function createSuggestionIndex(
+  words: Iterable<string>,
+  distance: (a: string, b: string) => number
+): SuggestionIndex {
+  const index: SuggestionIndex = { root: null, removed: new Set(), size: 0, nextOrder: 0, distance };
+  for (const word of words) {
+    addToIndex(index, word);
+  }
+  return index;
+}
+
+/**
+ * Add a word to the index (no-op if already present)
+ */
+export function addToIndex(index: SuggestionIndex, word: string): void {
+  if (index.removed.delete(word)) {
+    index.size++;
+    return;
+  }
+
+  if (!index.root) {
+    index.root = { word, order: index.nextOrder++, children: new Map() };
+    index.size++;
+    return;
+  }
+
+  let node = index.root;
+  for (;;) {
+    const d = index.distance(word, node.word);
+    if (d === 0) return;
+
+    const child = node.children.get(d);
+    if (!child) {
+      node.children.set(d, { word, order: index.nextOrder++, children: new Map() });
+      index.size++;
+      return;
+    }
+    node = child;
+  }
+}
+
+/**
+ * Remove a word from the index
+ */
+export function removeFromIndex(index: SuggestionIndex, word: string): void {
+  if (index.removed.has(word)) return;
+  if (searchIndex(index, word, 0).length === 0) return;
+
+  index.removed.add(word);
+  index.size--;
+}
+
+/**
+ * Find all indexed words within maxDistance of a word
+ */
+export function searchIndex(
+  index: SuggestionIndex,
+  word: string,
+  maxDistance: number
+): Array<{ word: string; distance: number; order: number }> {
+  const results: Array<{ word: string; distance: number; order: number }> = [];
+  if (!index.root) return results;
+
+  const stack: BKNode[] = [index.root];
+  while (stack.length > 0) {
+    const node = stack.pop()!;
+    const d = index.distance(word, node.word);
+
+    if (d <= maxDistance && !index.removed.has(node.word)) {
+      results.push({ word: node.word, distance: d, order: node.order });
+    }
+
+    // Triangle inequality: only subtrees at distance d±maxDistance can match
+    for (const [childDistance, child] of node.children) {
+      if (childDistance >= d - maxDistance && childDistance <= d + maxDistance) {
+        stack.push(child);
+      }
+    }
+  }
+
+  return results;
+}
@@ -0,0 +1,49 @@
+/**
+ * Fountain Spell Assist - Check Pipeline Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { checkText, CheckSettings } from './checker';
+
+const settings: CheckSettings = { customDictionary: new Set(), grammarCheck: false };
+
+describe('checkText', () => {
+  it('reports spelling issues, then repeated words', () => {
+    const issues = checkText('We shipped the the langauge update.', settings);
+    expect(issues.map((issue) => [issue.word, issue.category, issue.ruleId])).toEqual([
+      ['langauge', 'spelling', 'unknown-word'],
+      ['the the', 'grammar', 'repeated-word'],
+    ]);
+  });
+
+  it('reports grammar errors only when enabled', () => {
+    const text = 'This is better then before.';
+    expect(checkText(text, settings)).toHaveLength(0);
+    expect(checkText(text, { ...settings, grammarCheck: true }).map((issue) => issue.category)).toEqual(['grammar']);
+  });
+
+  it('only runs the English grammar rules on English text', () => {
+    const text = 'This is better then before.';
+    expect(checkText(text, { ...settings, grammarCheck: true, language: 'en-GB' })).toHaveLength(1);
+    expect(checkText(text, { ...settings, grammarCheck: true, language: 'de' })).toHaveLength(0);
+  });
+
+  it('explains grammar errors as warnings', () => {
+    const [issue] = checkText('This is better then before.', { ...settings, grammarCheck: true });
+    expect(issue).toMatchObject({
+      word: 'then',
+      suggestions: ['than'],
+      category: 'grammar',
+      ruleId: 'then-than',
+      severity: 'warning',
+    });
+    expect(issue.explanation).not.toBe('');
+  });
+
+  it('applies the spell check options', () => {
+    const text = 'Run kubectl now.';
+    expect(checkText(text, settings)).toHaveLength(1);
+    expect(checkText(text, { ...settings, domains: ['software'] })).toHaveLength(0);
+    expect(checkText(text, { ...settings, customDictionary: new Set(['kubectl']) })).toHaveLength(0);
+  });
+});
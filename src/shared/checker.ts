@@ -0,0 +1,41 @@
+/**
+ * Fountain Spell Assist - Check Pipeline
+ *
+ * Runs every check on a piece of text: spelling (including real-word errors
+ * and split/joined words), repeated words and, when enabled, grammar. The
+ * content script runs it chunk by chunk (see incremental.ts), in a worker
+ * where it can (see checkworker.ts) and on the page otherwise, so both paths
+ * report exactly the same issues.
+ */
+
+import { Issue } from './types';
+import { findMisspellings, SpellCheckOptions } from './dictionary';
+import { findRepeatedWords } from './repeated';
+import { findGrammarErrors } from './grammar';
+
+/** Everything a check depends on besides the text and the registered word lists */
+export interface CheckSettings extends SpellCheckOptions {
+  /** Custom dictionary words (normalized, lowercase) */
+  customDictionary: Set<string>;
+  /** Also report grammar errors */
+  grammarCheck: boolean;
+}
+
+/**
+ * Find all issues in text, in the order spelling, repeated words, grammar
+ */
+export function checkText(text: string, settings: CheckSettings): Issue[] {
+  const { customDictionary, grammarCheck, ...options } = settings;
+
+  const issues = findMisspellings(text, customDictionary, options);
+
+  // Doubled words ("the the")
+  issues.push(...findRepeatedWords(text));
+
+  // The grammar rules are written for English
+  if (grammarCheck && (!options.language || options.language.startsWith('en'))) {
+    issues.push(...findGrammarErrors(text));
+  }
+
+  return issues;
+}
@@ -0,0 +1,95 @@
+/**
+ * Fountain Spell Assist - Check Worker Protocol Tests
+ *
+ * The client and host talk over a real MessageChannel, as they would between
+ * the content script and the worker.
+ */
+
+import { describe, it, expect, afterEach } from 'vitest';
+import { createCheckClient, createCheckHost, CheckClient, CheckResponse, CheckPort } from './checkworker';
+import { checkText, CheckSettings } from './checker';
+import { hasLanguagePack } from './dictionary';
+
+const settings: CheckSettings = {
+  customDictionary: new Set(['fsa']),
+  corrections: new Map([['recieve', new Map([['receive', 2]])]]),
+  caseSensitiveWords: new Map([['github', 'GitHub']]),
+  grammarCheck: true,
+};
+
+let channel: MessageChannel;
+let client: CheckClient;
+let results: CheckResponse[];
+
+/** Connect a client to a host through a message channel */
+function connect(): void {
+  channel = new MessageChannel();
+  results = [];
+  const handleRequest = createCheckHost((response) => {
+    results.push(response);
+    channel.port2.postMessage(response);
+  });
+  channel.port2.onmessage = (event) => handleRequest(event.data);
+  client = createCheckClient(channel.port1 as unknown as CheckPort);
+}
+
+afterEach(() => {
+  client.dispose();
+  channel.port1.close();
+  channel.port2.close();
+});
+
+describe('check worker protocol', () => {
+  it('returns the same issues as checking on the page', async () => {
+    connect();
+    const text = 'FSA can recieve Github events; your the the best.';
+    const inPage = checkText(text, settings).sort((a, b) => a.startIndex - b.startIndex);
+    expect(await client.check(1, text, settings, 0)).toEqual(inPage);
+  });
+
+  it('resolves a stale check with null and skips running it', async () => {
+    connect();
+    const first = client.check(1, 'teh first', settings, 0);
+    const second = client.check(1, 'teh second', settings, 0);
+
+    expect(await first).toBeNull();
+    expect((await second)?.map((issue) => issue.word)).toEqual(['teh']);
+    expect(results).toHaveLength(1);
+  });
+
+  it('keeps checks for different fields apart', async () => {
+    connect();
+    const [a, b] = await Promise.all([
+      client.check(1, 'speling', settings, 0),
+      client.check(2, 'grammer', settings, 0),
+    ]);
+    expect(a?.[0].word).toBe('speling');
+    expect(b?.[0].word).toBe('grammer');
+  });
+
+  it('drops the pending check of a released field', async () => {
+    connect();
+    const check = client.check(1, 'teh', settings, 0);
+    client.release(1);
+    expect(await check).toBeNull();
+
+    // Let the host run anything still queued
+    await client.check(2, 'ok', settings, 0);
+    expect(results).toHaveLength(1);
+  });
+
+  it('resolves pending checks with null on dispose', async () => {
+    connect();
+    const check = client.check(1, 'teh', settings, 0);
+    client.dispose();
+    expect(await check).toBeNull();
+  });
+
+  it('registers language packs in the host', async () => {
+    connect();
+    client.registerLanguagePack('xx-WORKER', new Set(['blorp']));
+    await client.check(1, 'blorp', settings, 0);
+    expect(hasLanguagePack('xx-WORKER')).toBe(true);
+    expect(await client.check(1, 'blorp', { ...settings, language: 'xx-WORKER' }, 1)).toEqual([]);
+  });
+});
@@ -0,0 +1,167 @@
+/**
+ * Fountain Spell Assist - Check Worker Protocol
+ *
+ * Lets the content script run checks in a dedicated worker, off the main
+ * thread of the host page. The client side lives in the content script; the
+ * host side runs in the worker (src/content/spellcheck.worker.ts) and checks
+ * each field with its own incremental checker, like the in-page path.
+ *
+ * Each check belongs to a field. A new check for a field makes the previous
+ * one stale: the client resolves it with null, and the host drops it if it
+ * hasn't started yet. The host runs one check per task, so newer requests
+ * and releases are seen between checks.
+ */
+
+import { Issue } from './types';
+import { CheckSettings } from './checker';
+import { createIncrementalChecker, IncrementalChecker } from './incremental';
+import { registerBaseDictionary, registerLanguagePack } from './dictionary';
+
+/** Identifies the field a check belongs to */
+export type CheckKey = number;
+
+/** Messages from the content script to the worker */
+export type CheckRequest =
+  | { type: 'register-base'; words: Set<string> }
+  | { type: 'register-language'; language: string; words: Set<string> }
+  | { type: 'check'; id: number; key: CheckKey; text: string; settings: CheckSettings; revision: number }
+  | { type: 'release'; key: CheckKey };
+
+/** Messages from the worker to the content script */
+export interface CheckResponse {
+  type: 'result';
+  id: number;
+  misspellings: Issue[];
+}
+
+/** The parts of a Worker (or MessagePort) the client talks through */
+export interface CheckPort {
+  postMessage(message: CheckRequest): void;
+  onmessage: ((event: MessageEvent<CheckResponse>) => void) | null;
+  terminate?(): void;
+}
+
+/** Async checking API backed by a worker */
+export interface CheckClient {
+  /**
+   * Check a field's text; resolves null if a newer check for the field replaced it
+   * See IncrementalChecker for the revision.
+   */
+  check(key: CheckKey, text: string, settings: CheckSettings, revision: number): Promise<Issue[] | null>;
+  /** Forget a field: its pending check resolves with null and its cached results are dropped */
+  release(key: CheckKey): void;
+  /** Send the built-in word list to the worker */
+  registerBaseDictionary(words: Set<string>): void;
+  /** Send a loaded language pack to the worker */
+  registerLanguagePack(language: string, words: Set<string>): void;
+  /** Stop the worker; pending checks resolve with null */
+  dispose(): void;
+}
+
+/**
+ * Create the worker side: handles requests and posts results
+ */
+export function createCheckHost(post: (response: CheckResponse) => void): (request: CheckRequest) => void {
+  // Latest unstarted check per field, oldest field first
+  const queued = new Map<CheckKey, Extract<CheckRequest, { type: 'check' }>>();
+  const checkers = new Map<CheckKey, IncrementalChecker>();
+  let scheduled = false;
+
+  const runNext = () => {
+    scheduled = false;
+    const next = queued.values().next();
+    if (next.done) return;
+
+    const { id, key, text, settings, revision } = next.value;
+    queued.delete(key);
+
+    let checker = checkers.get(key);
+    if (!checker) {
+      checker = createIncrementalChecker();
+      checkers.set(key, checker);
+    }
+    post({ type: 'result', id, misspellings: checker.check(text, settings, revision) });
+    schedule();
+  };
+
+  // Yield between checks so messages that arrived meanwhile are handled first
+  const schedule = () => {
+    if (scheduled || queued.size === 0) return;
+    scheduled = true;
+    setTimeout(runNext, 0);
+  };
+
+  return (request) => {
+    switch (request.type) {
+      case 'register-base':
+        registerBaseDictionary(request.words);
+        break;
+      case 'register-language':
+        registerLanguagePack(request.language, request.words);
+        break;
+      case 'check':
+        // Requeue at the back, replacing the field's stale check
+        queued.delete(request.key);
+        queued.set(request.key, request);
+        schedule();
+        break;
+      case 'release':
+        queued.delete(request.key);
+        checkers.delete(request.key);
+        break;
+    }
+  };
+}
+
+/**
+ * Create the content script side of the protocol
+ */
+export function createCheckClient(port: CheckPort): CheckClient {
+  const pending = new Map<CheckKey, { id: number; resolve: (result: Issue[] | null) => void }>();
+  let nextId = 1;
+
+  port.onmessage = (event) => {
+    const { id, misspellings } = event.data;
+    for (const [key, request] of pending) {
+      if (request.id === id) {
+        pending.delete(key);
+        request.resolve(misspellings);
+        return;
+      }
+    }
+    // Results of stale checks are dropped
+  };
+
+  return {
+    check(key, text, settings, revision) {
+      pending.get(key)?.resolve(null);
+
+      const id = nextId++;
+      return new Promise((resolve) => {
+        pending.set(key, { id, resolve });
+        port.postMessage({ type: 'check', id, key, text, settings, revision });
+      });
+    },
+
+    release(key) {
+      pending.get(key)?.resolve(null);
+      pending.delete(key);
+      port.postMessage({ type: 'release', key });
+    },
+
+    registerBaseDictionary(words) {
+      port.postMessage({ type: 'register-base', words });
+    },
+
+    registerLanguagePack(language, words) {
+      port.postMessage({ type: 'register-language', language, words });
+    },
+
+    dispose() {
+      for (const request of pending.values()) request.resolve(null);
+      pending.clear();
+      port.onmessage = null;
+      port.terminate?.();
+    },
+  };
+}
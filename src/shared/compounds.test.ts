@@ -0,0 +1,49 @@
+/**
+ * Fountain Spell Assist - Split and Joined Word Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { findWordBreaks, getClosedCompound } from './compounds';
+
+const known = new Set(['a', 'i', 'lot', 'thank', 'you', 'in', 'fact', 'b']);
+const isKnown = (word: string) => known.has(word);
+
+describe('findWordBreaks', () => {
+  it('breaks run-together words into two known words', () => {
+    expect(findWordBreaks('alot', isKnown)).toEqual(['a lot']);
+    expect(findWordBreaks('thankyou', isKnown)).toEqual(['thank you']);
+    expect(findWordBreaks('infact', isKnown)).toEqual(['in fact']);
+  });
+
+  it('only lets "a" and "I" stand alone', () => {
+    expect(findWordBreaks('blot', isKnown)).toEqual([]);
+  });
+
+  it('returns nothing when no break works', () => {
+    expect(findWordBreaks('zzzz', isKnown)).toEqual([]);
+  });
+});
+
+describe('getClosedCompound', () => {
+  it('joins compounds written apart', () => {
+    expect(getClosedCompound('no', 'where')).toBe('nowhere');
+    expect(getClosedCompound('With', 'out')).toBe('without');
+  });
+
+  it('keeps the words apart before "of"', () => {
+    expect(getClosedCompound('with', 'out', 'of')).toBeNull();
+  });
+
+  it('ignores ordinary word pairs', () => {
+    expect(getClosedCompound('no', 'one')).toBeNull();
+    expect(getClosedCompound('in', 'to')).toBeNull();
+  });
+
+  it('ignores pairs that are often meant apart', () => {
+    expect(getClosedCompound('every', 'one')).toBeNull();
+    expect(getClosedCompound('some', 'one')).toBeNull();
+    expect(getClosedCompound('now', 'here')).toBeNull();
+    expect(getClosedCompound('note', 'book')).toBeNull();
+    expect(getClosedCompound('pass', 'word')).toBeNull();
+  });
+});
@@ -0,0 +1,62 @@
+/**
+ * Fountain Spell Assist - Split and Joined Words
+ *
+ * Run-together words ("alot", "thankyou") are fixed by breaking them into two
+ * known words. Closed compounds written apart ("no where", "with out") are
+ * fixed by joining the two tokens.
+ */
+
+/** One-letter words that may stand on their own in a break ("a lot") */
+const ONE_LETTER_WORDS = new Set(['a', 'i']);
+
+/**
+ * Closed compounds written as two words, keyed by the pair ("no where")
+ * Only pairs that are almost never correct apart are listed; pairs that are
+ * often meant apart ("every one", "some one", "now here", "note book") are
+ * left alone.
+ */
+const SPLIT_COMPOUNDS = new Map([
+  ['no where', 'nowhere'],
+  ['some where', 'somewhere'],
+  ['any where', 'anywhere'],
+  ['every where', 'everywhere'],
+  ['with out', 'without'],
+  ['through out', 'throughout'],
+  ['there fore', 'therefore'],
+  ['my self', 'myself'],
+  ['your self', 'yourself'],
+  ['him self', 'himself'],
+  ['her self', 'herself'],
+  ['it self', 'itself'],
+  ['our selves', 'ourselves'],
+  ['your selves', 'yourselves'],
+  ['them selves', 'themselves'],
+]);
+
+/**
+ * Find ways to break a run-together word into two known words
+ * "alot" -> ["a lot"], "thankyou" -> ["thank you"]
+ */
+export function findWordBreaks(word: string, isKnown: (word: string) => boolean): string[] {
+  const breaks: string[] = [];
+
+  for (let i = 1; i < word.length; i++) {
+    const first = word.slice(0, i);
+    const second = word.slice(i);
+    if (first.length === 1 && !ONE_LETTER_WORDS.has(first)) continue;
+    if (second.length === 1 && !ONE_LETTER_WORDS.has(second)) continue;
+
+    if (isKnown(first) && isKnown(second)) breaks.push(`${first} ${second}`);
+  }
+
+  return breaks;
+}
+
+/**
+ * Get the closed compound two adjacent words should be joined into
+ * A following "of" means the words really are separate ("with out of band").
+ */
+export function getClosedCompound(first: string, second: string, next?: string): string | null {
+  if (next?.toLowerCase() === 'of') return null;
+  return SPLIT_COMPOUNDS.get(`${first.toLowerCase()} ${second.toLowerCase()}`) ?? null;
+}
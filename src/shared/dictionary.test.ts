@@ -7,11 +7,16 @@
 import { describe, it, expect } from 'vitest';
 import {
   levenshteinDistance,
+  damerauDistance,
   getSuggestions,
   isWordCorrect,
   extractWords,
   findMisspellings,
   getBuiltInDictionary,
+  buildCorrectionHistory,
+  buildCaseSensitiveWords,
+  registerLanguagePack,
+  getCorrectionConfidence,
 } from './dictionary';
 
 describe('levenshteinDistance', () => {
@@ -38,6 +43,48 @@ describe('levenshteinDistance', () => {
   });
 });
 
+describe('damerauDistance', () => {
+  it('counts a transposition as one edit', () => {
+    expect(damerauDistance('teh', 'the')).toBe(1);
+    expect(damerauDistance('recieve', 'receive')).toBe(1);
+    expect(levenshteinDistance('teh', 'the')).toBe(2);
+  });
+
+  it('matches Levenshtein when nothing is swapped', () => {
+    expect(damerauDistance('kitten', 'sitting')).toBe(3);
+    expect(damerauDistance('', 'hello')).toBe(5);
+    expect(damerauDistance('hello', 'hello')).toBe(0);
+  });
+
+  it('does not edit a substring twice', () => {
+    // Optimal string alignment: "ca" -> "ac" -> "abc" is not allowed
+    expect(damerauDistance('ca', 'abc')).toBe(3);
+  });
+
+  it('applies a custom transposition cost', () => {
+    expect(damerauDistance('teh', 'the', 0.25)).toBe(0.25);
+    expect(damerauDistance('form', 'from', 0.25)).toBe(0.25);
+  });
+});
+
+describe('getCorrectionConfidence', () => {
+  it('is high for a close, unambiguous match', () => {
+    expect(getCorrectionConfidence('langauge', ['language'])).toBeGreaterThanOrEqual(0.8);
+  });
+
+  it('is low when the runner-up is just as close', () => {
+    expect(getCorrectionConfidence('cst', ['cat', 'cut'])).toBeLessThan(0.8);
+  });
+
+  it('is low for short words', () => {
+    expect(getCorrectionConfidence('wrk', ['work'])).toBeLessThan(0.8);
+  });
+
+  it('is zero without suggestions', () => {
+    expect(getCorrectionConfidence('xyzzy', [])).toBe(0);
+  });
+});
+
 describe('getSuggestions', () => {
   const dictionary = new Set(['hello', 'help', 'world', 'word', 'work', 'cat', 'bat', 'hat']);
 
@@ -66,6 +113,29 @@ describe('getSuggestions', () => {
     const suggestions = getSuggestions('xyz', dictionary);
     expect(suggestions.length).toBe(0);
   });
+
+  it('ranks transpositions above other single edits', () => {
+    const words = new Set(['ten', 'tea', 'the', 'tech']);
+    expect(getSuggestions('teh', words)[0]).toBe('the');
+
+    // "wokr" is one insertion from "woke" but one swap from "work"
+    expect(getSuggestions('wokr', new Set(['woke', 'work']))[0]).toBe('work');
+  });
+
+  it('ranks transpositions above adjacent-key typos', () => {
+    // "h" and "n" are neighbours, so "ten" is also a likely typo for "teh"
+    expect(getSuggestions('teh', new Set(['ten', 'the']))).toEqual(['the', 'ten']);
+  });
+
+  it('boosts adjacent-key typos for the chosen keyboard layout', () => {
+    const dictionary = getBuiltInDictionary();
+    // "z" is next to "a" on QWERTY but not on QWERTZ, so only QWERTY boosts "tape"
+    expect(getSuggestions('tzpe', dictionary)[0]).toBe('tape');
+    expect(getSuggestions('tzpe', dictionary, 5, undefined, 'qwertz')[0]).toBe('type');
+    // "y" is next to "h" on QWERTY but not on Dvorak, where the commoner "zero" wins
+    expect(getSuggestions('yero', dictionary, 5, undefined, 'qwerty')[0]).toBe('hero');
+    expect(getSuggestions('yero', dictionary, 5, undefined, 'dvorak')[0]).toBe('zero');
+  });
 });
 
 describe('isWordCorrect', () => {
@@ -171,6 +241,11 @@ describe('findMisspellings', () => {
     expect(result[0].suggestions).toContain('hello');
   });
 
+  it('suggests the transposed word first', () => {
+    const result = findMisspellings('Teh wrold is waht it is');
+    expect(result.map(m => m.suggestions[0])).toEqual(['The', 'world', 'what']);
+  });
+
   it('respects custom dictionary', () => {
     const customDict = new Set(['customword']);
     const result = findMisspellings('customword is fine', customDict);
@@ -205,3 +280,562 @@ describe('getBuiltInDictionary', () => {
   });
 });
 
+describe('regional variants', () => {
+  it('accepts the spelling preferred by the locale', () => {
+    expect(isWordCorrect('color', new Set(), { language: 'en-US' })).toBe(true);
+    expect(isWordCorrect('colour', new Set(), { language: 'en-GB' })).toBe(true);
+    expect(isWordCorrect('organised', new Set(), { language: 'en-AU' })).toBe(true);
+    expect(isWordCorrect('centre', new Set(), { language: 'en-CA' })).toBe(true);
+  });
+
+  it('flags the other region\'s spelling', () => {
+    expect(isWordCorrect('colour', new Set(), { language: 'en-US' })).toBe(false);
+    expect(isWordCorrect('organize', new Set(), { language: 'en-GB' })).toBe(false);
+    expect(isWordCorrect('center', new Set(), { language: 'en-GB' })).toBe(false);
+  });
+
+  it('mixes conventions for Canadian English', () => {
+    expect(isWordCorrect('organize', new Set(), { language: 'en-CA' })).toBe(true);
+    expect(isWordCorrect('organise', new Set(), { language: 'en-CA' })).toBe(false);
+    expect(isWordCorrect('color', new Set(), { language: 'en-CA' })).toBe(false);
+  });
+
+  it('suggests the regional equivalent first', () => {
+    const us = findMisspellings('The colour of the centre', new Set(), { language: 'en-US' });
+    expect(us.map(m => m.suggestions[0])).toEqual(['color', 'center']);
+
+    const gb = findMisspellings('Organize the theater', new Set(), { language: 'en-GB' });
+    expect(gb.map(m => m.suggestions[0])).toEqual(['Organise', 'theatre']);
+  });
+
+  it('lets the custom dictionary override the locale', () => {
+    expect(isWordCorrect('colour', new Set(['colour']), { language: 'en-US' })).toBe(true);
+  });
+
+  it('ignores variants when no language is given', () => {
+    expect(isWordCorrect('colour', new Set())).toBe(true);
+    expect(isWordCorrect('color', new Set())).toBe(true);
+  });
+});
+
+describe('affix stripping', () => {
+  it('accepts inflections of known words', () => {
+    expect(isWordCorrect('companies', new Set())).toBe(true);
+    expect(isWordCorrect('stopped', new Set())).toBe(true);
+    expect(isWordCorrect('creating', new Set())).toBe(true);
+    expect(isWordCorrect('happiness', new Set())).toBe(true);
+  });
+
+  it('accepts chains of prefixes and suffixes', () => {
+    expect(isWordCorrect('refactored', new Set())).toBe(true);
+    expect(isWordCorrect('unhelpfully', new Set())).toBe(true);
+    expect(isWordCorrect('deployments', new Set(['deploy']))).toBe(true);
+  });
+
+  it('still flags misspelled inflections', () => {
+    expect(isWordCorrect('occured', new Set())).toBe(false);
+    expect(isWordCorrect('stoped', new Set())).toBe(false);
+    expect(isWordCorrect('thes', new Set())).toBe(false);
+  });
+
+  it('does not derive from other regions\' spellings', () => {
+    expect(isWordCorrect('recolour', new Set(), { language: 'en-US' })).toBe(false);
+    expect(isWordCorrect('recolor', new Set(), { language: 'en-US' })).toBe(true);
+  });
+
+  it('flags misspelled and regularized forms', () => {
+    const misspelled = [
+      'comeing', 'makeing', 'useing', 'happyness', 'reallyly', 'disbelieveable', 'completly', 'noticable',
+      'publically', 'sincerly', 'runned', 'childs', 'mouses', 'writed', 'catched', 'thinked', 'buyed',
+      'teached', 'womans', 'antiknow', 'semiforms',
+    ];
+    expect(misspelled.filter((word) => isWordCorrect(word, new Set()))).toEqual([]);
+  });
+
+  it('keeps the spelling changes that are right', () => {
+    for (const word of ['agreeing', 'changeable', 'valuing', 'truly', 'running', 'writer', 'excitedly', 'buildings']) {
+      expect(isWordCorrect(word, new Set())).toBe(true);
+    }
+  });
+
+  it('builds suggestions from corrected stems', () => {
+    const suggestions = getSuggestions('compnies', getBuiltInDictionary());
+    expect(suggestions).toContain('companies');
+    expect(getSuggestions('recieved', getBuiltInDictionary())).toContain('received');
+  });
+
+  it('does not invent words from stems', () => {
+    const dictionary = getBuiltInDictionary();
+    const expected: Record<string, string> = {
+      goverment: 'government', comming: 'coming', writting: 'writing', untill: 'until',
+    };
+    for (const [typo, first] of Object.entries(expected)) {
+      const suggestions = getSuggestions(typo, dictionary);
+      expect(suggestions[0]).toBe(first);
+      expect(suggestions.filter((suggestion) => !dictionary.has(suggestion))).toEqual([]);
+    }
+    expect(getSuggestions('recieved', dictionary).filter((suggestion) => !dictionary.has(suggestion))).toEqual(['received']);
+  });
+
+  it('ranks whole words before rebuilt ones', () => {
+    const suggestions = getSuggestions('compnies', getBuiltInDictionary());
+    expect(suggestions.indexOf('companies')).toBe(suggestions.length - 1);
+  });
+});
+
+describe('suggestion index', () => {
+  it('suggests custom words as they are added and removed', () => {
+    const customDict = new Set(['fountainkit']);
+    expect(findMisspellings('fountainkt', customDict)[0].suggestions).toContain('fountainkit');
+
+    customDict.add('spellwise');
+    expect(findMisspellings('spelwise', customDict)[0].suggestions).toContain('spellwise');
+
+    customDict.delete('fountainkit');
+    expect(findMisspellings('fountainkt', customDict)[0].suggestions).not.toContain('fountainkit');
+  });
+
+  it('reindexes a dictionary that grew since the last lookup', () => {
+    const dictionary = new Set(['cat']);
+    expect(getSuggestions('dgo', dictionary)).toEqual([]);
+
+    dictionary.add('dog');
+    expect(getSuggestions('dgo', dictionary)).toContain('dog');
+  });
+});
+
+describe('phonetic suggestions', () => {
+  it('suggests words that sound like the misspelling', () => {
+    const result = findMisspellings('rythm fonetic', new Set(['phonetic']));
+    expect(result.map(m => m.suggestions[0])).toEqual(['rhythm', 'phonetic']);
+  });
+
+  it('reaches sound-alike words beyond the edit distance window', () => {
+    const dictionary = new Set(['biology', 'psychology', 'ecology']);
+    expect(getSuggestions('sikology', dictionary)).toContain('psychology');
+  });
+
+  it('ranks sound-alike words above other edits at the same distance', () => {
+    // Both are one substitution away, but only "cat" sounds like "kat"
+    expect(getSuggestions('kat', new Set(['bat', 'cat']))).toEqual(['cat', 'bat']);
+  });
+});
+
+describe('frequency ranking', () => {
+  it('prefers common words among equally close candidates', () => {
+    // All one substitution from "zork"; "work" is by far the most common
+    const dictionary = new Set(['cork', 'fork', 'pork', 'work']);
+    expect(getSuggestions('zork', dictionary)[0]).toBe('work');
+  });
+
+  it('does not depend on dictionary order', () => {
+    const forward = getSuggestions('qime', new Set(['dime', 'lime', 'mime', 'time']));
+    const backward = getSuggestions('qime', new Set(['time', 'mime', 'lime', 'dime']));
+    expect(forward[0]).toBe('time');
+    expect(backward[0]).toBe('time');
+  });
+
+  it('puts the likely word first for auto-correct', () => {
+    const result = findMisspellings('I will tell you nexy time');
+    expect(result[0].suggestions[0]).toBe('next');
+  });
+});
+
+describe('learned corrections', () => {
+  const history = buildCorrectionHistory([
+    { misspelling: 'wrok', correction: 'wrote', count: 1, lastUsed: 0 },
+    { misspelling: 'wrok', correction: 'wreck', count: 3, lastUsed: 0 },
+  ]);
+
+  it('puts previously picked suggestions first, most picked first', () => {
+    const dictionary = new Set(['work', 'wrote', 'wreck']);
+    expect(getSuggestions('wrok', dictionary, 5, history)).toEqual(['wreck', 'wrote', 'work']);
+  });
+
+  it('keeps the original capitalization', () => {
+    const result = findMisspellings('Wrok', new Set(), { corrections: history });
+    expect(result[0].suggestions.slice(0, 2)).toEqual(['Wreck', 'Wrote']);
+  });
+
+  it('leaves other misspellings alone', () => {
+    const result = findMisspellings('teh', new Set(), { corrections: history });
+    expect(result[0].suggestions[0]).toBe('the');
+  });
+
+  it('overrides the regional suggestion once the user picked something else', () => {
+    const picked = buildCorrectionHistory([
+      { misspelling: 'colour', correction: 'collar', count: 1, lastUsed: 0 },
+    ]);
+    const result = findMisspellings('colour', new Set(), { language: 'en-US', corrections: picked });
+    expect(result[0].suggestions[0]).toBe('collar');
+  });
+});
+
+describe('code-aware checking', () => {
+  it('accepts well-formed identifiers', () => {
+    expect(findMisspellings('Call getUserProfile with max_retry_count set')).toHaveLength(0);
+    expect(findMisspellings('The XMLHttpRequest in use-local-storage')).toHaveLength(0);
+  });
+
+  it('flags the misspelled part of an identifier', () => {
+    const result = findMisspellings('Call getUserProfle now');
+    expect(result).toHaveLength(1);
+    expect(result[0].word).toBe('Profle');
+    expect(result[0].startIndex).toBe(12);
+    expect(result[0].endIndex).toBe(18);
+    expect(result[0].suggestions[0]).toBe('Profile');
+  });
+
+  it('flags misspelled snake_case parts', () => {
+    const result = findMisspellings('max_retyr_count');
+    expect(result.map(m => m.word)).toEqual(['retyr']);
+  });
+
+  it('ignores file paths', () => {
+    expect(findMisspellings('See src/shared/dictonary.ts for details')).toHaveLength(0);
+  });
+});
+
+describe('compounds, possessives and abbreviations', () => {
+  it('accepts hyphenated compounds known as a whole or by their parts', () => {
+    expect(findMisspellings('A so-called state-of-the-art, well-known design')).toHaveLength(0);
+  });
+
+  it('accepts compounds led by a prefix', () => {
+    const text = 'A pre-order for the non-profit, anti-virus software, re-enter it, my ex-wife, a mid-year review';
+    expect(findMisspellings(text)).toHaveLength(0);
+    expect(isWordCorrect('self-hosted', new Set())).toBe(true);
+  });
+
+  it('does not accept a prefix on its own', () => {
+    const result = findMisspellings('A pre-ordr and a word-pre');
+    expect(result.map((m) => m.word)).toEqual(['ordr', 'pre']);
+  });
+
+  it('flags the misspelled part of a compound', () => {
+    const result = findMisspellings('A state-of-teh-art design');
+    expect(result.map((m) => [m.word, m.startIndex, m.suggestions[0]])).toEqual([['teh', 11, 'the']]);
+  });
+
+  it('checks possessives by their owner', () => {
+    expect(isWordCorrect("company's", new Set())).toBe(true);
+    expect(isWordCorrect('students’', new Set())).toBe(true);
+    expect(isWordCorrect("Fountain's", new Set(['fountain']))).toBe(true);
+    expect(findMisspellings("The team's results and the users' comments")).toHaveLength(0);
+  });
+
+  it('flags only the owner of a misspelled possessive', () => {
+    const result = findMisspellings("The compnay's policy");
+    expect(result).toHaveLength(1);
+    expect(result[0].word).toBe('compnay');
+    expect(result[0].endIndex).toBe(11);
+    expect(result[0].suggestions[0]).toBe('company');
+  });
+
+  it('enforces the case of a case-sensitive owner', () => {
+    const caseSensitiveWords = buildCaseSensitiveWords([{ word: 'GitHub', addedAt: 0, caseSensitive: true }]);
+    const custom = new Set(['github']);
+    expect(isWordCorrect("GitHub's", custom, { caseSensitiveWords })).toBe(true);
+    const result = findMisspellings("Github's API", custom, { caseSensitiveWords });
+    expect(result.map((m) => [m.word, m.suggestions])).toEqual([['Github', ['GitHub']]]);
+  });
+
+  it('accepts abbreviations with periods', () => {
+    const text = 'Bring food, e.g. fruit, i.e. nothing sweet, etc. Ask Dr. Lee, Ph.D. at 9 a.m. approx.';
+    expect(findMisspellings(text).map((m) => m.word)).toEqual(['Lee']);
+  });
+
+  it('still flags unknown dotted words', () => {
+    expect(isWordCorrect('e.q.', new Set())).toBe(false);
+    expect(isWordCorrect('ca', new Set())).toBe(false);
+  });
+});
+
+describe('token rules', () => {
+  it('accepts acronyms, codes, ordinals, units, versions and IDs', () => {
+    const text = 'On the 21st, NASA shipped v2.3.1 (10kg, 5ms, 2.4GHz) for HIPAA2024 as JIRA-142 and 0xFF.';
+    expect(findMisspellings(text)).toHaveLength(0);
+    expect(findMisspellings('A 21st-century design for COVID-19')).toHaveLength(0);
+  });
+
+  it('flags tokens the rules reject', () => {
+    expect(isWordCorrect('SPACEX', new Set())).toBe(false);
+    expect(isWordCorrect('TEH', new Set())).toBe(false);
+    expect(isWordCorrect('NASA', new Set(), { tokenRules: { maxAcronymLength: 0 } })).toBe(false);
+  });
+
+  it('flags a wrong ordinal whole, with the right suffix', () => {
+    const [issue] = findMisspellings('On the 22th of May');
+    expect(issue).toMatchObject({ word: '22th', startIndex: 7, endIndex: 11, suggestions: ['22nd'], ruleId: 'ordinal' });
+    expect(findMisspellings('A 22th-century design').map((m) => [m.word, m.suggestions])).toEqual([['22th', ['22nd']]]);
+  });
+
+  it('flags ordinals whole when the rule is off', () => {
+    const result = findMisspellings('On the 21st', new Set(), { tokenRules: { ordinals: false } });
+    expect(result.map((m) => [m.word, m.suggestions])).toEqual([['21st', []]]);
+  });
+
+  it('checks capitals that are a slip of a common word as words', () => {
+    const result = findMisspellings('THE QUIK fox');
+    expect(result.map((m) => m.word)).toEqual(['QUIK']);
+    expect(result[0].suggestions[0]).toBe('QUICK');
+    expect(isWordCorrect('WROK', new Set())).toBe(false);
+    expect(isWordCorrect('THIER', new Set())).toBe(false);
+  });
+
+  it('keeps acronyms near a word by other edits', () => {
+    expect(findMisspellings('NASA, OPEC, SAML and TODO notes')).toHaveLength(0);
+  });
+
+  it('checks the letters of a rejected word with digits', () => {
+    const result = findMisspellings('Buy 3aples today');
+    expect(result.map((m) => [m.word, m.startIndex])).toEqual([['aples', 5]]);
+  });
+
+  it('accepts custom words with digits', () => {
+    expect(isWordCorrect('SPACEX9', new Set(), { tokenRules: { alphanumerics: false } })).toBe(false);
+    expect(isWordCorrect('SPACEX9', new Set(['spacex9']), { tokenRules: { alphanumerics: false } })).toBe(true);
+  });
+});
+
+describe('non-word ranges', () => {
+  it('does not flag links, handles or code', () => {
+    const text = 'Ask @jdoe about https://exampel.com/releaseNotes, see `fetchUsr()` :shipit:';
+    expect(findMisspellings(text)).toHaveLength(0);
+  });
+});
+
+describe('Unicode words', () => {
+  it('does not flag words in curly quotes', () => {
+    expect(findMisspellings('She wrote ‘hello’ to the ‘team’.')).toEqual([]);
+  });
+
+  it('accepts typographic apostrophes', () => {
+    expect(findMisspellings('I don’t think it won’t work')).toHaveLength(0);
+  });
+
+  it('accepts accented words with or without accents', () => {
+    expect(isWordCorrect('café', new Set())).toBe(true);
+    expect(isWordCorrect('Cafe', new Set())).toBe(true);
+    expect(isWordCorrect('naive', new Set())).toBe(true);
+    expect(isWordCorrect('café', new Set())).toBe(true);
+  });
+
+  it('keeps accents required outside English', () => {
+    registerLanguagePack('xx-ACCENTS', new Set(['das', 'mädchen', 'ist', 'schön', 'über']));
+    const options = { language: 'xx-ACCENTS' };
+    expect(isWordCorrect('mädchen', new Set(), options)).toBe(true);
+    expect(isWordCorrect('madchen', new Set(), options)).toBe(false);
+    expect(isWordCorrect('uber', new Set(), options)).toBe(false);
+    expect(findMisspellings('Das Madchen ist schon.', new Set(), options).map(m => m.word)).toEqual([
+      'Madchen',
+      'schon',
+    ]);
+  });
+
+  it('matches custom words regardless of apostrophe style', () => {
+    expect(isWordCorrect('Fountain’s', new Set(["fountain's"]))).toBe(true);
+  });
+
+  it('does not flag other scripts', () => {
+    expect(findMisspellings('Привет, 世界! Καλημέρα')).toHaveLength(0);
+  });
+
+  it('flags misspelled accented words with the right offsets', () => {
+    const result = findMisspellings('A café so terible');
+    expect(result.map(m => [m.word, m.startIndex])).toEqual([['terible', 10]]);
+    expect(result[0].suggestions).toContain('terrible');
+  });
+});
+
+describe('split and joined words', () => {
+  it('suggests breaking run-together words', () => {
+    const dictionary = getBuiltInDictionary();
+    expect(getSuggestions('alot', dictionary)[0]).toBe('a lot');
+    expect(getSuggestions('infact', dictionary)[0]).toBe('in fact');
+    expect(getSuggestions('Thankyou', dictionary)[0]).toBe('Thank you');
+  });
+
+  it('flags closed compounds written as two words', () => {
+    const result = findMisspellings('Thanks with out you!');
+    expect(result).toEqual([
+      {
+        word: 'with out',
+        startIndex: 7,
+        endIndex: 15,
+        suggestions: ['without'],
+        category: 'spelling',
+        ruleId: 'split-word',
+        severity: 'error',
+        confidence: 0.85,
+        explanation: 'Written as one word: "without"',
+      },
+    ]);
+  });
+
+  it('leaves the words apart when they are meant apart', () => {
+    expect(findMisspellings('Every one of us agreed')).toHaveLength(0);
+    expect(findMisspellings('We are now here.')).toHaveLength(0);
+    expect(findMisspellings('Every one counts here.')).toHaveLength(0);
+    expect(findMisspellings('Some one should fix it.')).toHaveLength(0);
+    expect(findMisspellings('Please note book titles here.')).toHaveLength(0);
+    expect(findMisspellings('No one knows')).toHaveLength(0);
+  });
+
+  it('joins a misspelled half with its neighbour', () => {
+    const result = findMisspellings('The infor mation is here');
+    expect(result).toHaveLength(1);
+    expect(result[0]).toMatchObject({ word: 'infor mation', startIndex: 4, endIndex: 16 });
+    expect(result[0].suggestions).toEqual(['information']);
+  });
+
+  it('does not join across punctuation', () => {
+    expect(findMisspellings('with, out')).toHaveLength(0);
+  });
+});
+
+describe('case-sensitive custom words', () => {
+  const caseSensitiveWords = buildCaseSensitiveWords([
+    { word: 'GitHub', addedAt: 0, caseSensitive: true },
+    { word: 'iPhone', addedAt: 0, caseSensitive: true },
+    { word: 'fountain', addedAt: 0 },
+  ]);
+  const custom = new Set(['github', 'iphone', 'fountain']);
+
+  it('only collects case-sensitive entries', () => {
+    expect([...caseSensitiveWords]).toEqual([['github', 'GitHub'], ['iphone', 'iPhone']]);
+  });
+
+  it('accepts the exact capitalization only', () => {
+    expect(isWordCorrect('GitHub', custom, { caseSensitiveWords })).toBe(true);
+    expect(isWordCorrect('Github', custom, { caseSensitiveWords })).toBe(false);
+    expect(isWordCorrect('iphone', custom, { caseSensitiveWords })).toBe(false);
+    expect(isWordCorrect('Fountain', custom, { caseSensitiveWords })).toBe(true);
+  });
+
+  it('suggests the exact capitalization', () => {
+    const result = findMisspellings('Push it to Github from my IPhone', custom, { caseSensitiveWords });
+    expect(result.map(m => [m.word, m.suggestions])).toEqual([
+      ['Github', ['GitHub']],
+      ['IPhone', ['iPhone']],
+    ]);
+  });
+
+  it('uses the exact capitalization for other misspellings', () => {
+    const result = findMisspellings('Push it to Gthub', custom, { caseSensitiveWords });
+    expect(result[0].suggestions[0]).toBe('GitHub');
+  });
+});
+
+describe('common misspellings', () => {
+  it('flags listed typos that look like derived forms', () => {
+    expect(isWordCorrect('arguement', new Set())).toBe(false);
+    expect(isWordCorrect('truely', new Set())).toBe(false);
+  });
+
+  it('suggests the listed fix first', () => {
+    expect(findMisspellings('Teh end')[0].suggestions[0]).toBe('The');
+    expect(findMisspellings('in the abscence of')[0].suggestions[0]).toBe('absence');
+  });
+
+  it('lets custom words override the table', () => {
+    expect(isWordCorrect('teh', new Set(['teh']))).toBe(true);
+  });
+});
+
+describe('real-word errors', () => {
+  const contextCheck = { realWordCheck: true };
+
+  it('flags valid words that do not fit the context', () => {
+    const result = findMisspellings('Download it form the website.', new Set(), contextCheck);
+    expect(result).toEqual([
+      {
+        word: 'form',
+        startIndex: 12,
+        endIndex: 16,
+        suggestions: ['from'],
+        category: 'spelling',
+        ruleId: 'real-word',
+        severity: 'warning',
+        confidence: 0.5,
+        explanation: 'A real word, but "from" fits better here',
+      },
+    ]);
+  });
+
+  it('keeps the capitalization of the flagged word', () => {
+    expect(findMisspellings('Check weather the build passed.', new Set(), contextCheck)[0].suggestions).toEqual(['whether']);
+    expect(findMisspellings('Weather or not it works.', new Set(), contextCheck)[0].suggestions).toEqual(['Whether']);
+  });
+
+  it('trusts custom dictionary words', () => {
+    expect(findMisspellings('Download it form the website.', new Set(['form']), contextCheck)).toHaveLength(0);
+  });
+
+  it('only runs for English', () => {
+    expect(findMisspellings('Download it form the website.', new Set(), { ...contextCheck, language: 'de-DE' })).toHaveLength(0);
+  });
+
+  it('is off unless turned on', () => {
+    expect(findMisspellings('Download it form the website.')).toHaveLength(0);
+    expect(findMisspellings('Download it form the website.', new Set(), { realWordCheck: false })).toHaveLength(0);
+  });
+
+  it('does not read across skipped paths', () => {
+    expect(findMisspellings('Go to /usr/local/bin/node now', new Set(), contextCheck)).toHaveLength(0);
+  });
+});
+
+describe('domain dictionaries', () => {
+  const text = 'Run kubectl apply; the call is idempotent.';
+
+  it('flags jargon when no pack is enabled', () => {
+    expect(findMisspellings(text).map((m) => m.word)).toEqual(['kubectl', 'idempotent']);
+  });
+
+  it('accepts words from enabled packs', () => {
+    expect(findMisspellings(text, new Set(), { domains: ['software'] })).toHaveLength(0);
+    expect(isWordCorrect('Amortization', new Set(), { domains: ['finance'] })).toBe(true);
+    expect(isWordCorrect('amortization', new Set(), { domains: ['software'] })).toBe(false);
+  });
+
+  it('accepts inflections of pack words', () => {
+    expect(isWordCorrect('refactored', new Set(), { domains: ['software'] })).toBe(true);
+  });
+
+  it('suggests words from enabled packs', () => {
+    const [result] = findMisspellings('Run kubctl apply.', new Set(), { domains: ['software'] });
+    expect(result.suggestions[0]).toBe('kubectl');
+  });
+});
+
+describe('issue details', () => {
+  it('explains unknown words, as sure as their top suggestion', () => {
+    const [close] = findMisspellings('The quikc fox');
+    expect(close).toMatchObject({
+      category: 'spelling',
+      ruleId: 'unknown-word',
+      severity: 'error',
+      explanation: 'Not in the dictionary',
+    });
+    expect(close.confidence).toBe(getCorrectionConfidence(close.word, close.suggestions));
+    expect(findMisspellings('xqzvbn')[0].confidence).toBeLessThan(close.confidence);
+  });
+
+  it('names the rule behind common typos and regional spellings', () => {
+    expect(findMisspellings('Teh end')[0]).toMatchObject({ ruleId: 'common-typo', confidence: 1 });
+    expect(findMisspellings('colour', new Set(), { language: 'en-US' })[0]).toMatchObject({
+      ruleId: 'regional-spelling',
+      explanation: 'Spelled differently in en-US',
+    });
+  });
+
+  it('explains custom word capitalization', () => {
+    const caseSensitiveWords = buildCaseSensitiveWords([{ word: 'GitHub', addedAt: 0, caseSensitive: true }]);
+    const [issue] = findMisspellings('Github', new Set(['github']), { caseSensitiveWords });
+    expect(issue).toMatchObject({
+      ruleId: 'custom-capitalization',
+      explanation: 'Your dictionary spells this "GitHub"',
+    });
+  });
+});
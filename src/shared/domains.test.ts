@@ -0,0 +1,39 @@
+/**
+ * Fountain Spell Assist - Domain Dictionary Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { getDomainWords } from './domains';
+import { getBuiltInDictionary } from './dictionary';
+import { DomainDictionary } from './types';
+
+describe('getDomainWords', () => {
+  it('is empty when no packs are enabled', () => {
+    expect(getDomainWords([]).size).toBe(0);
+    expect(getDomainWords().size).toBe(0);
+  });
+
+  it('merges the enabled packs', () => {
+    const words = getDomainWords(['software', 'finance']);
+    expect(words.has('kubectl')).toBe(true);
+    expect(words.has('amortization')).toBe(true);
+    expect(words.has('tachycardia')).toBe(false);
+  });
+
+  it('returns the same set for the same packs in any order', () => {
+    expect(getDomainWords(['legal', 'medical'])).toBe(getDomainWords(['medical', 'legal', 'medical']));
+  });
+
+  it('ignores packs it does not ship', () => {
+    const domains = ['software', 'astronomy', 'toString'] as DomainDictionary[];
+    expect(getDomainWords(domains)).toBe(getDomainWords(['software']));
+  });
+
+  it('only lists lowercase words missing from the base dictionary', () => {
+    const base = getBuiltInDictionary();
+    for (const word of getDomainWords(['medical', 'legal', 'software', 'finance'])) {
+      expect(word).toBe(word.toLowerCase());
+      expect(base.has(word)).toBe(false);
+    }
+  });
+});
@@ -0,0 +1,130 @@
+/**
+ * Fountain Spell Assist - Domain Dictionaries
+ *
+ * Optional word packs for professional jargon ("kubectl", "idempotent",
+ * "amortization") that the general word list doesn't cover. Enabled packs are
+ * checked alongside the base dictionary and offered as suggestions; they are
+ * kept apart from the user's custom dictionary.
+ */
+
+import { DomainDictionary } from './types';
+
+/** Words in each domain pack, lowercase */
+const DOMAIN_WORDS: Record<DomainDictionary, ReadonlySet<string>> = {
+  // Anatomy, conditions, procedures and drugs
+  medical: new Set([
+    'abdominal', 'analgesic', 'anaphylaxis', 'anemia', 'anesthesia', 'anesthetic',
+    'aneurysm', 'angina', 'angioplasty', 'antibiotic', 'antibody', 'anticoagulant',
+    'antiemetic', 'antigen', 'antihistamine', 'antipyretic', 'antiviral', 'aorta',
+    'apnea', 'appendectomy', 'arrhythmia', 'arterial', 'arteriosclerosis', 'arthritis',
+    'asthma', 'atrial', 'atrophy', 'auscultation', 'benign', 'biopsy', 'bradycardia',
+    'bronchial', 'bronchitis', 'bursitis', 'carcinoma', 'cardiac', 'cardiology',
+    'cardiomyopathy', 'cardiovascular', 'catheter', 'cerebral', 'chemotherapy',
+    'cirrhosis', 'clavicle', 'colonoscopy', 'comorbidity', 'contraindication',
+    'coronary', 'cyanosis', 'cyst', 'dermatitis', 'dermatology', 'diabetes', 'diabetic',
+    'diagnosis', 'diagnostic', 'dialysis', 'diastolic', 'diuretic', 'dyspnea',
+    'echocardiogram', 'edema', 'electrocardiogram', 'embolism', 'emphysema',
+    'endocrine', 'endocrinology', 'endoscopy', 'epidermis', 'epidural', 'epilepsy',
+    'etiology', 'femur', 'fibrillation', 'fibula', 'gastric', 'gastritis',
+    'gastroenterology', 'gastrointestinal', 'glucose', 'hematology', 'hematoma',
+    'hemoglobin', 'hemorrhage', 'hepatic', 'hepatitis', 'histology', 'hypertension',
+    'hypertensive', 'hypoglycemia', 'hypotension', 'hypothyroidism', 'idiopathic',
+    'immunization', 'immunology', 'infarction', 'inflammation', 'insulin',
+    'intravenous', 'intubation', 'ischemia', 'jaundice', 'laparoscopy', 'lesion',
+    'leukemia', 'lipid', 'lumbar', 'lymphatic', 'lymphoma', 'malignant', 'mammogram',
+    'meningitis', 'metabolic', 'metastasis', 'metastatic', 'migraine', 'myocardial',
+    'nausea', 'necrosis', 'neonatal', 'nephrology', 'neurological', 'neurology',
+    'neuropathy', 'oncology', 'ophthalmology', 'orthopedic', 'osteoporosis', 'otitis',
+    'pancreas', 'pancreatitis', 'pathogen', 'pathology', 'pediatric', 'pediatrics',
+    'pericardium', 'perioperative', 'peritonitis', 'pharmacology', 'physiotherapy',
+    'placebo', 'pneumonia', 'polyp', 'postoperative', 'prognosis', 'prophylaxis',
+    'prostate', 'psoriasis', 'pulmonary', 'radiology', 'remission', 'renal',
+    'respiratory', 'rheumatoid', 'sciatica', 'sepsis', 'sternum', 'stethoscope',
+    'subcutaneous', 'suture', 'symptomatic', 'systolic', 'tachycardia', 'tendinitis',
+    'thoracic', 'thrombosis', 'thyroid', 'tibia', 'tinnitus', 'tracheostomy', 'triage',
+    'tumor', 'ulcer', 'urinalysis', 'urology', 'vaccination', 'vascular', 'vasodilator',
+    'ventricle', 'ventricular', 'vertebra', 'vertigo',
+  ]),
+  // Contracts, litigation and estates
+  legal: new Set([
+    'abeyance', 'adjudicate', 'adjudication', 'admissible', 'affiant', 'affidavit',
+    'amicus', 'annulment', 'appellant', 'appellate', 'appellee', 'arbitration',
+    'arbitrator', 'arraignment', 'assignee', 'assignor', 'attestation', 'bailiff',
+    'bailment', 'bequest', 'breach', 'certiorari', 'chattel', 'codicil', 'cognizable',
+    'complainant', 'conservator', 'conveyance', 'copyright', 'counterclaim', 'covenant',
+    'decedent', 'declaratory', 'deed', 'defamation', 'demurrer', 'deponent',
+    'deposition', 'devise', 'discoverable', 'docket', 'easement', 'emolument',
+    'encumbrance', 'enjoin', 'escheat', 'escrow', 'estoppel', 'exculpatory', 'executor',
+    'executrix', 'exonerate', 'extradition', 'felony', 'fiduciary', 'forfeiture',
+    'garnishment', 'grantee', 'grantor', 'guardianship', 'habeas', 'hearsay',
+    'indemnification', 'indemnify', 'indemnity', 'indictment', 'injunction',
+    'injunctive', 'inter', 'interlocutory', 'intestate', 'joinder', 'jurisdiction',
+    'jurisdictional', 'jurisprudence', 'leasehold', 'lessee', 'lessor', 'libel',
+    'licensee', 'licensor', 'lien', 'litigant', 'litigation', 'mandamus', 'misdemeanor',
+    'mortgagee', 'mortgagor', 'negligence', 'notarize', 'notarized', 'novation',
+    'nullify', 'obligee', 'obligor', 'paralegal', 'perjury', 'plaintiff', 'pleading',
+    'precedent', 'probate', 'promissory', 'prosecutorial', 'quash', 'recusal', 'recuse',
+    'remand', 'rescind', 'rescission', 'restitution', 'severability', 'slander',
+    'solicitor', 'statute', 'statutory', 'stipulation', 'sublease', 'sublet',
+    'subpoena', 'subrogation', 'summons', 'surety', 'testamentary', 'testator',
+    'testatrix', 'tort', 'tortious', 'trademark', 'trustee', 'usury', 'venue',
+    'verdict', 'voidable', 'waiver', 'warrantor',
+  ]),
+  // Programming, infrastructure and tooling
+  software: new Set([
+    'authn', 'authz', 'boolean', 'bytecode', 'cache', 'changelog', 'checksum', 'cli',
+    'codebase', 'codegen', 'cron', 'daemon', 'dataset', 'datastore', 'debounce',
+    'debugger', 'deserialize', 'devops', 'dns', 'dockerfile', 'failover', 'fallback',
+    'fastify', 'gitlab', 'gradle', 'graphql', 'grpc', 'hashmap', 'hostname', 'hotfix',
+    'idempotency', 'idempotent', 'inline', 'iterable', 'iterator', 'jsx', 'kubectl',
+    'kubernetes', 'lambda', 'linter', 'lockfile', 'middleware', 'minify', 'mutex',
+    'namespace', 'nginx', 'nodejs', 'npm', 'nullable', 'oauth', 'orm', 'parsable',
+    'postgres', 'postgresql', 'prepend', 'proxy', 'pubsub', 'readme', 'realtime',
+    'redis', 'refactor', 'refactoring', 'repos', 'runtime', 'rustc', 'sandbox', 'sdk',
+    'serializable', 'serialize', 'serverless', 'sharding', 'signup', 'stacktrace',
+    'stderr', 'struct', 'subclass', 'subdomain', 'submodule', 'subnet', 'subprocess',
+    'sudo', 'syscall', 'teardown', 'templating', 'terraform', 'throttle', 'timestamp',
+    'todo', 'toolchain', 'tsconfig', 'uri', 'vite', 'webhook', 'webpack', 'websocket',
+    'whitespace', 'workflow', 'yaml',
+  ]),
+  // Accounting, markets and lending
+  finance: new Set([
+    'accrual', 'accruals', 'accrue', 'accrued', 'actuarial', 'amortization', 'amortize',
+    'amortized', 'annuity', 'arbitrage', 'assets', 'audit', 'auditor', 'bearish',
+    'bondholder', 'bullish', 'capex', 'collateral', 'collateralized', 'commodities',
+    'compounding', 'coupon', 'custodian', 'debenture', 'debit', 'default', 'deflation',
+    'depreciation', 'derivative', 'derivatives', 'dividend', 'dividends', 'ebitda',
+    'equities', 'equity', 'escrow', 'fiduciary', 'fintech', 'forex', 'forfeiture',
+    'hedging', 'illiquid', 'indebtedness', 'insolvency', 'insolvent', 'interbank',
+    'ledger', 'lessee', 'leverage', 'leveraged', 'liabilities', 'liquidity', 'microcap',
+    'midcap', 'monetary', 'nasdaq', 'opex', 'overdraft', 'payables', 'payout',
+    'portfolio', 'prepayment', 'receivables', 'recession', 'refinance', 'refinancing',
+    'reinsurance', 'remittance', 'securities', 'securitization', 'shareholder',
+    'solvency', 'stakeholder', 'stockholder', 'subprime', 'tranche', 'treasury',
+    'underwriter', 'underwriting', 'valuation', 'volatility', 'warrant', 'writedown',
+  ]),
+};
+
+/** The word set for no enabled packs */
+const NO_WORDS = new Set<string>();
+
+/** Merged word sets, keyed by the enabled packs */
+const mergedWords = new Map<string, Set<string>>();
+
+/**
+ * Get the words of the enabled domain packs as one set
+ * The same set is returned for the same packs, so its suggestion index is reused.
+ */
+export function getDomainWords(domains: readonly DomainDictionary[] = []): Set<string> {
+  // Settings saved by a newer version may name packs we don't ship
+  const known = domains.filter((domain) => Object.prototype.hasOwnProperty.call(DOMAIN_WORDS, domain));
+  if (known.length === 0) return NO_WORDS;
+
+  const key = [...new Set(known)].sort().join(',');
+  let words = mergedWords.get(key);
+  if (!words) {
+    words = new Set(known.flatMap((domain) => [...DOMAIN_WORDS[domain]]));
+    mergedWords.set(key, words);
+  }
+  return words;
+}
@@ -0,0 +1,33 @@
+/**
+ * Fountain Spell Assist - Word Frequency Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { getFrequencyRank, getRarity } from './frequency';
+
+describe('getFrequencyRank', () => {
+  it('ranks common words ahead of rarer ones', () => {
+    expect(getFrequencyRank('the')).toBe(0);
+    expect(getFrequencyRank('work')!).toBeLessThan(getFrequencyRank('wonder')!);
+  });
+
+  it('gives inflected forms the rank of their stem', () => {
+    expect(getFrequencyRank('companies')).toBe(getFrequencyRank('company'));
+    expect(getFrequencyRank('Working')).toBe(getFrequencyRank('work'));
+  });
+
+  it('returns null for unlisted words', () => {
+    expect(getFrequencyRank('zymurgy')).toBeNull();
+  });
+});
+
+describe('getRarity', () => {
+  it('scales from 0 for the most common word to 1 for unlisted words', () => {
+    expect(getRarity('the')).toBe(0);
+    expect(getRarity('zymurgy')).toBe(1);
+
+    const rarity = getRarity('people');
+    expect(rarity).toBeGreaterThan(0);
+    expect(rarity).toBeLessThan(1);
+  });
+});
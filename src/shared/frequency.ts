@@ -0,0 +1,149 @@
+/**
+ * Fountain Spell Assist - Word Frequency Ranks
+ *
+ * Approximate frequency order of common English words, used to prefer the
+ * likely intended word when several suggestions are equally close. Based on
+ * general-purpose frequency lists, with a tail of software vocabulary our
+ * users write every day. Inflected forms share the rank of their stem.
+ */
+
+import { findKnownStem } from './morphology';
+
+/** Most frequent first */
+const RANKED_WORDS = [
+  'the', 'be', 'to', 'of', 'and', 'a', 'in', 'that', 'have', 'i',
+  'it', 'for', 'not', 'on', 'with', 'he', 'as', 'you', 'do', 'at',
+  'this', 'but', 'his', 'by', 'from', 'they', 'we', 'say', 'her', 'she',
+  'or', 'an', 'will', 'my', 'one', 'all', 'would', 'there', 'their', 'what',
+  'so', 'up', 'out', 'if', 'about', 'who', 'get', 'which', 'go', 'me',
+  'when', 'make', 'can', 'like', 'time', 'no', 'just', 'him', 'know', 'take',
+  'people', 'into', 'year', 'your', 'good', 'some', 'could', 'them', 'see', 'other',
+  'than', 'then', 'now', 'look', 'only', 'come', 'its', 'over', 'think', 'also',
+  'back', 'after', 'use', 'two', 'how', 'our', 'work', 'first', 'well', 'way',
+  'even', 'new', 'want', 'because', 'any', 'these', 'give', 'day', 'most', 'us',
+  'is', 'are', 'was', 'were', 'been', 'has', 'had', 'did', 'does', 'said',
+  'very', 'thing', 'many', 'need', 'should', 'much', 'where', 'through', 'before', 'right',
+  'too', 'here', 'down', 'mean', 'old', 'off', 'great', 'still', 'own', 'same',
+  'tell', 'call', 'might', 'while', 'last', 'long', 'never', 'find', 'each', 'little',
+  'let', 'place', 'world', 'those', 'feel', 'become', 'why', 'may', 'life', 'try',
+  'leave', 'ask', 'put', 'hand', 'part', 'high', 'seem', 'child', 'keep', 'help',
+  'home', 'again', 'another', 'around', 'show', 'begin', 'every', 'turn', 'start', 'between',
+  'school', 'big', 'something', 'house', 'both', 'small', 'point', 'hear', 'under', 'number',
+  'play', 'run', 'move', 'live', 'believe', 'bring', 'happen', 'next', 'write', 'without',
+  'provide', 'sit', 'stand', 'lose', 'pay', 'meet', 'include', 'continue', 'set', 'learn',
+  'change', 'lead', 'understand', 'watch', 'follow', 'stop', 'create', 'speak', 'read', 'allow',
+  'add', 'spend', 'grow', 'open', 'walk', 'win', 'offer', 'remember', 'love', 'consider',
+  'appear', 'buy', 'wait', 'serve', 'die', 'send', 'expect', 'build', 'stay', 'fall',
+  'cut', 'reach', 'kill', 'remain', 'suggest', 'raise', 'pass', 'sell', 'require', 'report',
+  'decide', 'pull', 'problem', 'fact', 'group', 'case', 'company', 'system', 'program', 'question',
+  'government', 'week', 'night', 'area', 'water', 'money', 'story', 'month', 'lot', 'book',
+  'eye', 'job', 'word', 'business', 'issue', 'side', 'kind', 'head', 'service', 'friend',
+  'father', 'power', 'hour', 'game', 'line', 'end', 'member', 'law', 'car', 'city',
+  'community', 'name', 'president', 'team', 'minute', 'idea', 'kid', 'body', 'information', 'nothing',
+  'ago', 'later', 'person', 'mother', 'face', 'others', 'level', 'office', 'door', 'health',
+  'art', 'war', 'history', 'party', 'result', 'morning', 'reason', 'research', 'girl', 'guy',
+  'moment', 'air', 'teacher', 'force', 'education', 'country', 'state', 'family', 'student', 'man',
+  'woman', 'better', 'best', 'sure', 'important', 'different', 'large', 'young', 'few', 'public',
+  'bad', 'able', 'early', 'late', 'hard', 'major', 'possible', 'whole', 'free', 'real',
+  'full', 'social', 'special', 'easy', 'clear', 'recent', 'certain', 'personal', 'local', 'true',
+  'low', 'human', 'political', 'national', 'current', 'general', 'similar', 'simple', 'short', 'always',
+  'often', 'however', 'today', 'together', 'already', 'yet', 'almost', 'enough', 'really', 'probably',
+  'actually', 'perhaps', 'quite', 'maybe', 'ever', 'far', 'soon', 'once', 'rather', 'else',
+  'usually', 'especially', 'finally', 'simply', 'exactly', 'certainly', 'quickly', 'clearly', 'during', 'against',
+  'within', 'since', 'until', 'among', 'though', 'although', 'whether', 'unless', 'across', 'behind',
+  'toward', 'towards', 'upon', 'above', 'below', 'along', 'beyond', 'three', 'four', 'five',
+  'six', 'seven', 'eight', 'nine', 'ten', 'hundred', 'thousand', 'million', 'second', 'third',
+  'half', 'several', 'everything', 'anything', 'someone', 'everyone', 'anyone', 'yes', 'okay', 'thanks',
+  'thank', 'please', 'hello', 'hi', 'sorry', 'oh', 'talk', 'plan', 'test', 'hope',
+  'fix', 'check', 'note', 'update', 'share', 'ready', 'order', 'study', 'process', 'market',
+  'policy', 'interest', 'support', 'experience', 'development', 'data', 'example', 'age', 'food', 'land',
+  'value', 'price', 'type', 'society', 'course', 'care', 'rate', 'view', 'field', 'effect',
+  'position', 'form', 'role', 'product', 'project', 'model', 'action', 'activity', 'relationship', 'decision',
+  'situation', 'period', 'control', 'range', 'cost', 'amount', 'street', 'road', 'class', 'picture',
+  'music', 'table', 'paper', 'letter', 'page', 'list', 'image', 'video', 'phone', 'email',
+  'message', 'news', 'event', 'meeting', 'design', 'feature', 'user', 'customer', 'client', 'manager',
+  'staff', 'worker', 'leader', 'owner', 'answer', 'step', 'task', 'goal', 'chance', 'choice',
+  'rule', 'risk', 'deal', 'light', 'sound', 'color', 'colour', 'voice', 'language', 'text',
+  'size', 'shape', 'mind', 'heart', 'fear', 'sense', 'truth', 'subject', 'term', 'matter',
+  'detail', 'figure', 'focus', 'basis', 'method', 'approach', 'practice', 'technology', 'science', 'theory',
+  'evidence', 'material', 'resource', 'source', 'quality', 'standard', 'structure', 'function', 'purpose', 'response',
+  'attention', 'future', 'past', 'present', 'season', 'summer', 'winter', 'weekend', 'evening', 'afternoon',
+  'tonight', 'tomorrow', 'yesterday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday',
+  'january', 'february', 'march', 'april', 'june', 'july', 'august', 'september', 'october', 'november',
+  'december', 'inside', 'outside', 'near', 'away', 'ahead', 'instead', 'indeed', 'receive', 'agree',
+  'describe', 'explain', 'discuss', 'develop', 'carry', 'drive', 'break', 'choose', 'enjoy', 'fill',
+  'finish', 'hold', 'improve', 'join', 'manage', 'miss', 'notice', 'prepare', 'produce', 'prove',
+  'protect', 'realize', 'recognize', 'reduce', 'reflect', 'refuse', 'remove', 'replace', 'return', 'save',
+  'seek', 'sign', 'sing', 'sleep', 'smile', 'sort', 'suffer', 'teach', 'throw', 'touch',
+  'train', 'travel', 'treat', 'visit', 'vote', 'wear', 'wish', 'worry', 'accept', 'achieve',
+  'act', 'affect', 'apply', 'argue', 'arrive', 'avoid', 'base', 'beat', 'catch', 'cause',
+  'claim', 'close', 'compare', 'contain', 'cover', 'deliver', 'depend', 'determine', 'draw', 'drop',
+  'eat', 'enter', 'establish', 'exist', 'explore', 'fail', 'fight', 'fly', 'forget', 'handle',
+  'hang', 'hit', 'identify', 'imagine', 'increase', 'indicate', 'involve', 'laugh', 'lie', 'listen',
+  'maintain', 'mention', 'mark', 'measure', 'obtain', 'occur', 'perform', 'pick', 'press', 'prevent',
+  'publish', 'push', 'record', 'relate', 'release', 'rely', 'represent', 'rest', 'reveal', 'rise',
+  'roll', 'search', 'select', 'settle', 'shoot', 'solve', 'stick', 'store', 'strike', 'succeed',
+  'supply', 'suppose', 'survive', 'tend', 'wonder', 'definitely', 'necessary', 'separate', 'beginning', 'environment',
+  'knowledge', 'available', 'popular', 'serious', 'private', 'single', 'strong', 'natural', 'physical', 'financial',
+  'military', 'medical', 'main', 'significant', 'various', 'particular', 'specific', 'common', 'poor', 'rich',
+  'happy', 'beautiful', 'nice', 'fine', 'hot', 'cold', 'dark', 'deep', 'final', 'fast',
+  'slow', 'heavy', 'huge', 'tiny', 'wide', 'wrong', 'correct', 'safe', 'quick', 'quiet',
+  'wonderful', 'terrible', 'interesting', 'successful', 'traditional', 'international', 'economic', 'environmental', 'legal', 'total',
+  'basic', 'central', 'complete', 'direct', 'effective', 'entire', 'foreign', 'key', 'modern', 'normal',
+  'obvious', 'official', 'original', 'perfect', 'positive', 'negative', 'primary', 'proper', 'senior', 'busy',
+  'careful', 'cheap', 'expensive', 'famous', 'friendly', 'funny', 'glad', 'green', 'blue', 'red',
+  'white', 'black', 'brown', 'gray', 'grey', 'yellow', 'orange', 'purple', 'pink', 'dog',
+  'cat', 'bird', 'fish', 'horse', 'tree', 'flower', 'sun', 'moon', 'star', 'sea',
+  'river', 'mountain', 'island', 'forest', 'rain', 'snow', 'wind', 'fire', 'earth', 'room',
+  'floor', 'wall', 'window', 'bed', 'chair', 'kitchen', 'garden', 'building', 'hospital', 'church',
+  'hotel', 'restaurant', 'shop', 'bank', 'station', 'airport', 'park', 'village', 'town', 'north',
+  'south', 'east', 'west', 'center', 'centre', 'corner', 'edge', 'middle', 'son', 'daughter',
+  'brother', 'sister', 'husband', 'wife', 'baby', 'boy', 'parent', 'doctor', 'police', 'officer',
+  'patient', 'player', 'artist', 'author', 'writer', 'reader', 'partner', 'expert', 'death', 'birth',
+  'blood', 'skin', 'hair', 'arm', 'leg', 'foot', 'finger', 'mouth', 'tea', 'coffee',
+  'milk', 'bread', 'meat', 'fruit', 'dinner', 'lunch', 'breakfast', 'meal', 'film', 'movie',
+  'song', 'dance', 'sport', 'ball', 'race', 'match', 'score', 'trip', 'ticket', 'flight',
+  'bus', 'plane', 'ship', 'boat', 'bike', 'truck', 'computer', 'software', 'internet', 'website',
+  'online', 'network', 'device', 'app', 'screen', 'file', 'code', 'bug', 'version', 'server',
+  'database', 'browser', 'password', 'account', 'login', 'setting', 'option', 'default', 'error', 'warning',
+  'debug', 'deploy', 'commit', 'merge', 'branch', 'review', 'request', 'object', 'variable', 'string',
+  'array', 'interface', 'module', 'package', 'library', 'framework', 'component', 'api', 'endpoint', 'query',
+  'cache', 'config', 'script', 'install', 'upgrade', 'refactor', 'implement', 'implementation', 'documentation', 'repository',
+  'pipeline', 'container', 'cluster', 'performance', 'security', 'sprint', 'deadline', 'schedule', 'calendar', 'document',
+  'spreadsheet', 'presentation', 'slide', 'summary', 'agenda', 'feedback', 'proposal', 'budget', 'invoice', 'contract',
+  'accommodate', 'occurrence', 'recommend', 'embarrass', 'existence', 'independent', 'maintenance', 'millennium', 'occasion', 'parallel',
+  'privilege', 'professional', 'questionnaire', 'receipt', 'reference', 'rhythm', 'weird', 'writing', 'address', 'argument',
+  'category', 'committee', 'conscious', 'definite', 'dilemma', 'discipline', 'exceed', 'grammar', 'guarantee', 'harass',
+  'immediately', 'judgment', 'license', 'lightning', 'medieval', 'mischievous', 'noticeable', 'perseverance', 'possession', 'precede',
+  'pronunciation', 'publicly', 'relevant', 'religious', 'sentence', 'sergeant', 'supersede', 'surprise', 'threshold',
+];
+
+/** Rank of each listed word (first occurrence wins) */
+const FREQUENCY_RANKS = new Map<string, number>();
+RANKED_WORDS.forEach((word, rank) => {
+  if (!FREQUENCY_RANKS.has(word)) FREQUENCY_RANKS.set(word, rank);
+});
+
+/**
+ * Get the frequency rank of a word (0 is the most common)
+ * Derived forms take the rank of their stem ("companies" -> "company").
+ * Returns null for words not in the frequency list.
+ */
+export function getFrequencyRank(word: string): number | null {
+  const lowerWord = word.toLowerCase();
+  const rank = FREQUENCY_RANKS.get(lowerWord);
+  if (rank !== undefined) return rank;
+
+  const stem = findKnownStem(lowerWord, (candidate) => FREQUENCY_RANKS.has(candidate));
+  return stem ? FREQUENCY_RANKS.get(stem)! : null;
+}
+
+/**
+ * Score how rare a word is, from 0 (most common) to 1 (unranked)
+ * Log-scaled, so the gap between rank 1 and 10 matters as much as 100 and 1000.
+ */
+export function getRarity(word: string): number {
+  const rank = getFrequencyRank(word);
+  if (rank === null) return 1;
+  return Math.log(rank + 1) / Math.log(FREQUENCY_RANKS.size + 1);
+}
@@ -0,0 +1,66 @@
+/**
+ * Fountain Spell Assist - Grammar Rule Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { findGrammarErrors, GRAMMAR_RULES } from './grammar';
+
+describe('grammar rule examples', () => {
+  for (const rule of GRAMMAR_RULES) {
+    describe(rule.id, () => {
+      it('has examples of both text it flags and text it leaves alone', () => {
+        expect(rule.examples.some((example) => example.flag)).toBe(true);
+        expect(rule.examples.some((example) => !example.flag)).toBe(true);
+      });
+
+      for (const { text, flag, suggestion } of rule.examples) {
+        const found = () => findGrammarErrors(text).filter((issue) => issue.ruleId === rule.id);
+
+        if (flag) {
+          it(`flags "${flag}" in "${text}"`, () => {
+            const issues = found();
+            expect(issues.map((issue) => issue.word)).toEqual([flag]);
+            if (suggestion) expect(issues[0].suggestions[0]).toBe(suggestion);
+          });
+        } else {
+          it(`leaves "${text}" alone`, () => {
+            expect(found()).toEqual([]);
+          });
+        }
+      }
+    });
+  }
+});
+
+describe('findGrammarErrors', () => {
+  it('reports each rule as a grammar issue with its explanation', () => {
+    expect(findGrammarErrors('This is better then before.')).toEqual([
+      {
+        word: 'then',
+        startIndex: 15,
+        endIndex: 19,
+        suggestions: ['than'],
+        category: 'grammar',
+        ruleId: 'then-than',
+        severity: 'warning',
+        confidence: 0.8,
+        explanation: 'Use "than" for comparisons',
+      },
+    ]);
+  });
+
+  it('uses the category and severity a rule sets', () => {
+    expect(findGrammarErrors('A very unique design.')[0]).toMatchObject({ category: 'style', severity: 'info' });
+    expect(findGrammarErrors('First , second')[0]).toMatchObject({ category: 'punctuation', startIndex: 5 });
+  });
+
+  it('reports issues in text order', () => {
+    const issues = findGrammarErrors('I could of known its not ready, it is to late.');
+    expect(issues.map((issue) => issue.ruleId)).toEqual(['could-of', 'its-apostrophe', 'to-too']);
+  });
+
+  it('gives rules unique ids', () => {
+    const ids = GRAMMAR_RULES.map((rule) => rule.id);
+    expect(new Set(ids).size).toBe(ids.length);
+  });
+});
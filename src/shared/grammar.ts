@@ -1,227 +1,304 @@
 /**
- * Fountain Spell Assist - Basic Grammar Checking
- * 
- * Detects common grammar mistakes:
- * - Their/there/they're
- * - Your/you're
- * - Its/it's
- * - To/too/two
- * - Then/than
+ * Fountain Spell Assist - Grammar Checking
+ *
+ * Runs the grammar rules in src/grammar/en.json: your/you're, its/it's,
+ * to/too, then/than, could of, a/an and a few style and punctuation checks.
+ * Rules are data, not code; this module interprets them.
+ *
+ * A rule matches either a sequence of tokens or a regular expression.
+ * Tokens are words and single punctuation marks, so a token pattern never
+ * matches across a comma ("better, then we left"). For example:
+ *
+ *   {
+ *     "id": "could-of",
+ *     "explanation": "Use 'have' after could, should or would",
+ *     "pattern": [{ "word": ["could", "should", "would"] }, { "word": "of", "mark": true }],
+ *     "suggestions": ["have"],
+ *     "exceptions": [[{ "word": "of" }, { "word": "course" }]],
+ *     "examples": [{ "text": "I could of won.", "flag": "of", "suggestion": "have" }, { "text": "We could, of course." }]
+ *   }
+ *
+ * Only the marked tokens are flagged; the others are context. Suggestions
+ * are templates: "$2" is the text of the pattern's second token (or a
+ * regex's second group), and a flagged word starting with a capital gives a
+ * capitalized suggestion. A match is dropped when one of the rule's
+ * exceptions matches tokens covering the flagged text. Every rule carries
+ * examples of text it flags and text it leaves alone; the tests run them all.
  */
 
-import { Misspelling } from './types';
+import { Issue, IssueCategory, IssueSeverity } from './types';
+import { normalizeWord } from './tokenizer';
+import RULE_DATA from '../grammar/en.json';
 
-export interface GrammarError {
-  word: string;
-  startIndex: number;
-  endIndex: number;
-  suggestion: string;
-  rule: string;
+/** One token of a rule's pattern */
+export interface TokenPattern {
+  /** The token is one of these words, ignoring case */
+  word?: string | string[];
+  /** The whole token matches this regular expression (case-sensitive) */
+  regex?: string;
+  /** The token starts a sentence */
+  start?: boolean;
+  /** The token is part of the flagged text */
+  mark?: boolean;
 }
 
+/** Text a rule should flag (with the flagged text and first suggestion) or leave alone */
+export interface GrammarExample {
+  text: string;
+  flag?: string;
+  suggestion?: string;
+}
+
+/** A grammar rule as written in the rule file */
+export interface GrammarRule {
+  /** Identifies the rule ("then-than") */
+  id: string;
+  /** Why the text is flagged, shown to the user */
+  explanation: string;
+  /** Defaults to grammar */
+  category?: IssueCategory;
+  /** Defaults to warning */
+  severity?: IssueSeverity;
+  /** How likely a match is a real mistake; defaults to 0.7 */
+  confidence?: number;
+  /** Tokens to match; a rule has a pattern or a regex */
+  pattern?: TokenPattern[];
+  /** Text to match, flagged as a whole */
+  regex?: string;
+  /** Suggestion templates */
+  suggestions: string[];
+  /** Token sequences that cancel a match when they cover the flagged text */
+  exceptions?: TokenPattern[][];
+  examples: GrammarExample[];
+}
+
+/** A word or punctuation mark in the text */
+interface GrammarToken {
+  /** Text as written */
+  text: string;
+  /** Lowercase with straight apostrophes, for word matching */
+  normal: string;
+  start: number;
+  end: number;
+  /** First token of a sentence */
+  sentenceStart: boolean;
+}
+
+/** A token pattern ready to match */
+interface CompiledToken {
+  words?: Set<string>;
+  regex?: RegExp;
+  start: boolean;
+  mark: boolean;
+}
+
+/** A rule ready to run */
+interface CompiledRule {
+  rule: GrammarRule;
+  pattern?: CompiledToken[];
+  regex?: RegExp;
+  exceptions: CompiledToken[][];
+  /** Index of the first and last flagged tokens of the pattern */
+  markFrom: number;
+  markTo: number;
+}
+
+/** Words and contractions, or any other single non-space character */
+const TOKEN = /[\p{L}\p{N}]+(?:['’ʼ][\p{L}\p{N}]+)*|[^\s\p{L}\p{N}]/gu;
+
+/** Punctuation that ends a sentence */
+const SENTENCE_END = /^[.!?]$/;
+
+/** Template references to tokens or groups ("$2") */
+const TEMPLATE_REFERENCE = /\$(\d)/g;
+
+/** The rules, as written in the rule file */
+export const GRAMMAR_RULES: readonly GrammarRule[] = RULE_DATA as GrammarRule[];
+
 /**
- * Common grammar rules
+ * Compile one token of a pattern
  */
-const GRAMMAR_RULES: Array<{
-  pattern: RegExp;
-  check: (match: RegExpMatchArray, context: string) => GrammarError | null;
-}> = [
-  // Their/There/They're
-  {
-    pattern: /\b(their|there|they're)\b/gi,
-    check: (match, context) => {
-      const word = match[0];
-      const lower = word.toLowerCase();
-      const index = match.index!;
-      
-      // Simple heuristics - can be improved
-      const before = context.substring(Math.max(0, index - 20), index).toLowerCase();
-      const after = context.substring(index + word.length, index + word.length + 20).toLowerCase();
-      
-      // "their" should be followed by a noun
-      if (lower === 'there' && /(is|are|was|were|will|can|should)\s/.test(after)) {
-        return null; // "there is/are" is correct
-      }
-      
-      // "they're" = "they are"
-      if (lower === 'they\'re' || lower === 'theyre') {
-        return null; // Usually correct
-      }
-      
-      // "their" = possessive
-      if (lower === 'their' && /(house|car|name|book|idea|way|own|best|first|last|new|old)\b/i.test(after)) {
-        return null; // Usually correct
-      }
-      
-      return null; // Don't flag these by default - too many false positives
-    },
-  },
-  
-  // Your/You're
-  {
-    pattern: /\b(your|you're|youre)\b/gi,
-    check: (match, context) => {
-      const word = match[0];
-      const lower = word.toLowerCase();
-      const index = match.index!;
-      const after = context.substring(index + word.length, index + word.length + 10).toLowerCase();
-      
-      // "you're" should be followed by verb/adjective
-      if ((lower === 'your' || lower === 'youre') && /^(going|doing|sure|right|wrong|here|there|welcome|ready)/.test(after)) {
-        return {
-          word,
-          startIndex: index,
-          endIndex: index + word.length,
-          suggestion: "you're",
-          rule: "Use 'you're' (you are) before verbs/adjectives",
-        };
-      }
-      
-      // "you're" should be followed by noun
-      if (lower === "you're" && /^(name|book|car|house|idea|way|best|first|last|new|old)\b/.test(after)) {
-        return {
-          word,
-          startIndex: index,
-          endIndex: index + word.length,
-          suggestion: "your",
-          rule: "Use 'your' (possessive) before nouns",
-        };
-      }
-      
-      return null;
-    },
-  },
-  
-  // Its/It's
-  {
-    pattern: /\b(its|it's)\b/gi,
-    check: (match, context) => {
-      const word = match[0];
-      const lower = word.toLowerCase();
-      const index = match.index!;
-      const after = context.substring(index + word.length, index + word.length + 10).toLowerCase();
-      
-      // "it's" = "it is" or "it has"
-      if (lower === 'its' && /^(going|doing|not|is|was|will|can|should|has|had|been|being)\b/.test(after)) {
-        return {
-          word,
-          startIndex: index,
-          endIndex: index + word.length,
-          suggestion: "it's",
-          rule: "Use 'it's' (it is) before verbs",
-        };
-      }
-      
-      // "its" = possessive
-      if (lower === "it's" && /^(name|book|car|house|idea|way|best|first|last|new|old|own)\b/.test(after)) {
-        return {
-          word,
-          startIndex: index,
-          endIndex: index + word.length,
-          suggestion: "its",
-          rule: "Use 'its' (possessive) before nouns",
-        };
-      }
-      
-      return null;
-    },
-  },
-  
-  // To/Too/Two
-  {
-    pattern: /\b(to|too|two)\b/gi,
-    check: (match, context) => {
-      const word = match[0];
-      const lower = word.toLowerCase();
-      const index = match.index!;
-      const before = context.substring(Math.max(0, index - 10), index).toLowerCase();
-      const after = context.substring(index + word.length, index + word.length + 10).toLowerCase();
-      
-      // "too" = also or excessive
-      if (lower === 'to' && (/^(also|much|many|big|small|fast|slow)\b/.test(after) || /(,|;)\s*to\s+also/.test(before + word + after))) {
-        return {
-          word,
-          startIndex: index,
-          endIndex: index + word.length,
-          suggestion: "too",
-          rule: "Use 'too' for 'also' or 'excessive'",
-        };
-      }
-      
-      // "two" = number
-      if (lower === 'to' && /^(people|men|women|children|things|items|days|weeks|years|hours|minutes|seconds)\b/.test(after)) {
-        // Could be "two" but context needed - skip for now
-        return null;
-      }
-      
-      return null;
-    },
-  },
-  
-  // Then/Than
-  {
-    pattern: /\b(then|than)\b/gi,
-    check: (match, context) => {
-      const word = match[0];
-      const lower = word.toLowerCase();
-      const index = match.index!;
-      const before = context.substring(Math.max(0, index - 10), index).toLowerCase();
-      
-      // "than" = comparison
-      if (lower === 'then' && /(more|less|better|worse|bigger|smaller|faster|slower|older|younger|taller|shorter)\s+then\b/.test(before + word)) {
-        return {
-          word,
-          startIndex: index,
-          endIndex: index + word.length,
-          suggestion: "than",
-          rule: "Use 'than' for comparisons",
-        };
-      }
-      
-      // "then" = time sequence
-      if (lower === 'than' && /(if|when|after|before|first|next|now)\s+than\b/.test(before + word)) {
-        return {
-          word,
-          startIndex: index,
-          endIndex: index + word.length,
-          suggestion: "then",
-          rule: "Use 'then' for time sequence",
-        };
-      }
-      
-      return null;
-    },
-  },
-];
+function compileToken(token: TokenPattern): CompiledToken {
+  const words = token.word === undefined ? [] : [token.word].flat();
+  return {
+    words: words.length > 0 ? new Set(words.map((word) => normalizeWord(word).toLowerCase())) : undefined,
+    regex: token.regex === undefined ? undefined : new RegExp(`^(?:${token.regex})$`, 'u'),
+    start: token.start ?? false,
+    mark: token.mark ?? false,
+  };
+}
 
 /**
- * Find grammar errors in text
+ * Compile a rule, checking that it is well formed
  */
-export function findGrammarErrors(text: string): GrammarError[] {
-  const errors: GrammarError[] = [];
-  
-  for (const rule of GRAMMAR_RULES) {
-    const matches = Array.from(text.matchAll(rule.pattern));
-    for (const match of matches) {
-      const error = rule.check(match, text);
-      if (error) {
-        errors.push(error);
-      }
+function compileRule(rule: GrammarRule): CompiledRule {
+  if (!rule.pattern === !rule.regex) {
+    throw new Error(`Grammar rule "${rule.id}" needs either a pattern or a regex`);
+  }
+  if (rule.suggestions.length === 0) {
+    throw new Error(`Grammar rule "${rule.id}" has no suggestions`);
+  }
+
+  const pattern = rule.pattern?.map(compileToken);
+  let markFrom = 0;
+  let markTo = (pattern?.length ?? 1) - 1;
+  if (pattern?.some((token) => token.mark)) {
+    markFrom = pattern.findIndex((token) => token.mark);
+    markTo = pattern.map((token) => token.mark).lastIndexOf(true);
+  }
+
+  return {
+    rule,
+    pattern,
+    regex: rule.regex === undefined ? undefined : new RegExp(rule.regex, 'gu'),
+    exceptions: (rule.exceptions ?? []).map((exception) => exception.map(compileToken)),
+    markFrom,
+    markTo,
+  };
+}
+
+/** Compiled rules, in file order */
+let compiledRules: CompiledRule[] | null = null;
+
+/**
+ * Get the compiled rules, compiling them on first use
+ */
+function getCompiledRules(): CompiledRule[] {
+  if (!compiledRules) {
+    const ids = new Set<string>();
+    compiledRules = GRAMMAR_RULES.map((rule) => {
+      if (ids.has(rule.id)) throw new Error(`Grammar rule "${rule.id}" is defined twice`);
+      ids.add(rule.id);
+      return compileRule(rule);
+    });
+  }
+  return compiledRules;
+}
+
+/**
+ * Split text into words and punctuation marks
+ */
+function tokenize(text: string): GrammarToken[] {
+  const tokens: GrammarToken[] = [];
+  for (const match of text.matchAll(TOKEN)) {
+    const previous = tokens[tokens.length - 1];
+    tokens.push({
+      text: match[0],
+      normal: normalizeWord(match[0]).toLowerCase(),
+      start: match.index!,
+      end: match.index! + match[0].length,
+      sentenceStart: !previous || SENTENCE_END.test(previous.text),
+    });
+  }
+  return tokens;
+}
+
+/**
+ * Check if a token matches one token of a pattern
+ */
+function matchesToken(token: GrammarToken, pattern: CompiledToken): boolean {
+  if (pattern.words && !pattern.words.has(token.normal)) return false;
+  if (pattern.regex && !pattern.regex.test(token.text)) return false;
+  return !pattern.start || token.sentenceStart;
+}
+
+/**
+ * Check if a sequence of patterns matches the tokens starting at an index
+ */
+function matchesAt(tokens: GrammarToken[], index: number, sequence: CompiledToken[]): boolean {
+  if (index < 0 || index + sequence.length > tokens.length) return false;
+  return sequence.every((pattern, i) => matchesToken(tokens[index + i], pattern));
+}
+
+/**
+ * Check if an exception covers the tokens from `from` to `to`
+ */
+function isExcepted(tokens: GrammarToken[], from: number, to: number, exceptions: CompiledToken[][]): boolean {
+  return exceptions.some((exception) => {
+    for (let start = to - exception.length + 1; start <= from; start++) {
+      if (matchesAt(tokens, start, exception)) return true;
     }
+    return false;
+  });
+}
+
+/**
+ * Fill in a suggestion template, matching the flagged text's capitalization
+ */
+function fillTemplate(template: string, parts: string[], flagged: string): string {
+  const filled = template.replace(TEMPLATE_REFERENCE, (_, n: string) => parts[Number(n) - 1] ?? '');
+  if (/^\p{Lu}/u.test(flagged)) {
+    return filled.charAt(0).toUpperCase() + filled.slice(1);
   }
-  
-  return errors;
+  return filled;
 }
 
 /**
- * Convert grammar error to misspelling format
+ * Build the issue for a match
  */
-export function grammarErrorToMisspelling(error: GrammarError): Misspelling {
+function createIssue(text: string, start: number, end: number, parts: string[], rule: GrammarRule): Issue {
+  const word = text.slice(start, end);
   return {
-    word: error.word,
-    startIndex: error.startIndex,
-    endIndex: error.endIndex,
-    suggestions: [error.suggestion],
+    word,
+    startIndex: start,
+    endIndex: end,
+    suggestions: rule.suggestions.map((template) => fillTemplate(template, parts, word)),
+    category: rule.category ?? 'grammar',
+    ruleId: rule.id,
+    severity: rule.severity ?? 'warning',
+    confidence: rule.confidence ?? 0.7,
+    explanation: rule.explanation,
   };
 }
 
+/**
+ * Find the matches of one rule
+ */
+function runRule(text: string, tokens: GrammarToken[], compiled: CompiledRule): Issue[] {
+  const { rule, pattern, regex, exceptions, markFrom, markTo } = compiled;
+  const issues: Issue[] = [];
+
+  if (regex) {
+    for (const match of text.matchAll(regex)) {
+      if (match[0] === '') continue;
+      const start = match.index!;
+      const end = start + match[0].length;
+      const covered = tokens.filter((token) => token.start < end && token.end > start);
+      if (covered.length > 0) {
+        const from = tokens.indexOf(covered[0]);
+        if (isExcepted(tokens, from, from + covered.length - 1, exceptions)) continue;
+      }
+      issues.push(createIssue(text, start, end, match.slice(1), rule));
+    }
+    return issues;
+  }
+
+  for (let i = 0; pattern && i + pattern.length <= tokens.length; i++) {
+    if (!matchesAt(tokens, i, pattern)) continue;
+    if (isExcepted(tokens, i + markFrom, i + markTo, exceptions)) continue;
+
+    const parts = pattern.map((_, j) => tokens[i + j].text);
+    issues.push(createIssue(text, tokens[i + markFrom].start, tokens[i + markTo].end, parts, rule));
+  }
+  return issues;
+}
+
+/**
+ * Find grammar errors in text, in order
+ * Where rules flag overlapping text, the rule listed first wins.
+ */
+export function findGrammarErrors(text: string): Issue[] {
+  const tokens = tokenize(text);
+  const issues: Issue[] = [];
+
+  for (const compiled of getCompiledRules()) {
+    for (const issue of runRule(text, tokens, compiled)) {
+      const overlaps = issues.some(
+        (other) => issue.startIndex < other.endIndex && issue.endIndex > other.startIndex
+      );
+      if (!overlaps) issues.push(issue);
+    }
+  }
+
+  return issues.sort((a, b) => a.startIndex - b.startIndex);
+}
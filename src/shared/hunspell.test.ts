@@ -0,0 +1,128 @@
+/**
+ * Fountain Spell Assist - Hunspell Parser Tests
+ *
+ * Tests for .aff/.dic parsing and affix expansion.
+ * Note: loadLanguagePack needs chrome.runtime and is not covered here.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parseAffix, parseDic, parseFlags, expandStem, buildWordList } from './hunspell';
+import { isWordCorrect, registerLanguagePack } from './dictionary';
+
+const AFF = `
+SET UTF-8
+TRY esianrtolcdugmphbyfvkwz
+
+# Plurals
+SFX S Y 4
+SFX S   y     ies        [^aeiou]y
+SFX S   0     s          [aeiou]y
+SFX S   0     es         [sxzh]
+SFX S   0     s          [^sxzhy]
+
+SFX D Y 2
+SFX D   0     ed         [^e]
+SFX D   0     d          e
+
+PFX U Y 1
+PFX U   0     un         .
+
+SFX N N 1
+SFX N   0     ness/S     .
+
+NEEDAFFIX X
+FORBIDDENWORD !
+`;
+
+const DIC = `6
+cat/S
+box/S
+city/S
+help/DU
+kind/UN
+thing/X!
+`;
+
+describe('parseAffix', () => {
+  it('parses suffix and prefix rules', () => {
+    const affix = parseAffix(AFF);
+    expect(affix.encoding).toBe('UTF-8');
+    expect(affix.suffixes.get('S')?.entries).toHaveLength(4);
+    expect(affix.prefixes.get('U')?.crossProduct).toBe(true);
+    expect(affix.suffixes.get('N')?.crossProduct).toBe(false);
+  });
+
+  it('parses continuation classes', () => {
+    const affix = parseAffix(AFF);
+    expect(affix.suffixes.get('N')?.entries[0].continuation).toEqual(['S']);
+  });
+
+  it('reads special flags', () => {
+    const affix = parseAffix(AFF);
+    expect(affix.needAffixFlag).toBe('X');
+    expect(affix.forbiddenWordFlag).toBe('!');
+  });
+});
+
+describe('parseFlags', () => {
+  it('splits flags by flag type', () => {
+    expect(parseFlags('AB', { flagType: 'char', flagAliases: [[]] })).toEqual(['A', 'B']);
+    expect(parseFlags('AaBb', { flagType: 'long', flagAliases: [[]] })).toEqual(['Aa', 'Bb']);
+    expect(parseFlags('12,34', { flagType: 'num', flagAliases: [[]] })).toEqual(['12', '34']);
+  });
+
+  it('resolves AF aliases', () => {
+    const affix = parseAffix('AF 2\nAF SD\nAF U\n');
+    expect(parseFlags('1', affix)).toEqual(['S', 'D']);
+    expect(parseFlags('2', affix)).toEqual(['U']);
+  });
+});
+
+describe('parseDic', () => {
+  it('skips the count line and splits stems from flags', () => {
+    const stems = parseDic(DIC, parseAffix(AFF));
+    expect(stems).toHaveLength(6);
+    expect(stems[0]).toEqual({ stem: 'cat', flags: ['S'] });
+  });
+
+  it('ignores morphological fields', () => {
+    const stems = parseDic('1\nrun/S\tpo:verb\n', parseAffix(AFF));
+    expect(stems[0]).toEqual({ stem: 'run', flags: ['S'] });
+  });
+});
+
+describe('expandStem', () => {
+  const affix = parseAffix(AFF);
+
+  it('applies suffix conditions', () => {
+    expect(expandStem({ stem: 'city', flags: ['S'] }, affix)).toContain('cities');
+    expect(expandStem({ stem: 'box', flags: ['S'] }, affix)).toContain('boxes');
+    expect(expandStem({ stem: 'cat', flags: ['S'] }, affix)).toContain('cats');
+  });
+
+  it('applies cross products', () => {
+    const forms = expandStem({ stem: 'help', flags: ['D', 'U'] }, affix);
+    expect(forms).toEqual(expect.arrayContaining(['help', 'helped', 'unhelp', 'unhelped']));
+  });
+
+  it('applies continuation classes', () => {
+    expect(expandStem({ stem: 'kind', flags: ['N'] }, affix)).toContain('kindnesses');
+  });
+
+  it('drops forbidden words', () => {
+    expect(expandStem({ stem: 'thing', flags: ['X', '!'] }, affix)).toHaveLength(0);
+  });
+});
+
+describe('buildWordList', () => {
+  it('feeds the spell checker through registerLanguagePack', () => {
+    const words = buildWordList(AFF, DIC);
+    expect(words.has('cities')).toBe(true);
+    expect(words.has('thing')).toBe(false);
+
+    registerLanguagePack('xx-TEST', words);
+    expect(isWordCorrect('unhelped', new Set(), { language: 'xx-TEST' })).toBe(true);
+    expect(isWordCorrect('world', new Set(), { language: 'xx-TEST' })).toBe(false);
+    expect(isWordCorrect('world', new Set())).toBe(true);
+  });
+});
@@ -0,0 +1,381 @@
+/**
+ * Fountain Spell Assist - Hunspell Language Packs
+ *
+ * Parses Hunspell affix (.aff) and dictionary (.dic) files into the flat
+ * word set consulted by the spell checker. Packs are bundled with the
+ * extension under `dictionaries/<language>.aff` and `dictionaries/<language>.dic`
+ * and loaded on demand - no network calls.
+ *
+ * Supported affix features:
+ * - FLAG (single char, long, num, UTF-8) and AF flag aliases
+ * - PFX/SFX rules with conditions and cross products
+ * - One level of continuation classes (e.g. "SFX A 0 s/B")
+ * - NEEDAFFIX, FORBIDDENWORD and ONLYINCOMPOUND
+ */
+
+import { normalizeWord } from './tokenizer';
+
+export type FlagType = 'char' | 'long' | 'num' | 'UTF-8';
+
+/** A single line of a PFX/SFX rule */
+export interface AffixEntry {
+  /** Characters removed from the stem before adding */
+  strip: string;
+  /** Characters added to the stem */
+  add: string;
+  /** Flags that may be applied to the derived word */
+  continuation: string[];
+  /** Condition the stem must match for the entry to apply */
+  condition: RegExp;
+}
+
+/** A PFX or SFX rule group sharing one flag */
+export interface AffixRule {
+  type: 'PFX' | 'SFX';
+  flag: string;
+  /** Whether the rule combines with rules of the opposite type */
+  crossProduct: boolean;
+  entries: AffixEntry[];
+}
+
+/** Parsed contents of an .aff file */
+export interface AffixData {
+  encoding: string;
+  flagType: FlagType;
+  prefixes: Map<string, AffixRule>;
+  suffixes: Map<string, AffixRule>;
+  /** AF flag alias table (1-based in the file, index 0 unused) */
+  flagAliases: string[][];
+  needAffixFlag?: string;
+  forbiddenWordFlag?: string;
+  onlyInCompoundFlag?: string;
+}
+
+/** A stem from a .dic file with its affix flags */
+export interface DictionaryStem {
+  stem: string;
+  flags: string[];
+}
+
+/** Language codes with a bundled pack, mapped to their file base name */
+export const LANGUAGE_PACKS: Record<string, string> = {
+  'en-US': 'en_US',
+  'en-GB': 'en_GB',
+  'en-CA': 'en_CA',
+  'en-AU': 'en_AU',
+};
+
+/**
+ * Split a raw flag string according to the FLAG type
+ */
+export function parseFlags(raw: string, affix: Pick<AffixData, 'flagType' | 'flagAliases'>): string[] {
+  if (!raw) return [];
+
+  // AF aliases replace the flag field with a 1-based index
+  if (affix.flagAliases.length > 1 && /^\d+$/.test(raw)) {
+    return affix.flagAliases[parseInt(raw, 10)] || [];
+  }
+
+  switch (affix.flagType) {
+    case 'long': {
+      const flags: string[] = [];
+      for (let i = 0; i < raw.length; i += 2) {
+        flags.push(raw.slice(i, i + 2));
+      }
+      return flags;
+    }
+    case 'num':
+      return raw.split(',').filter((f) => f.length > 0);
+    case 'UTF-8':
+      return Array.from(raw);
+    default:
+      return raw.split('');
+  }
+}
+
+/**
+ * Convert a Hunspell affix condition into an anchored regex
+ */
+function parseCondition(condition: string, type: 'PFX' | 'SFX'): RegExp {
+  if (!condition || condition === '.') {
+    return /(?:)/;
+  }
+
+  // Conditions are a restricted regex syntax: literals, "." and [...] groups.
+  // Escape everything outside of bracket groups.
+  let source = '';
+  let inGroup = false;
+  for (const char of condition) {
+    if (char === '[') inGroup = true;
+    if (char === ']') inGroup = false;
+    if (inGroup || char === ']' || char === '.') {
+      source += char;
+    } else {
+      source += char.replace(/[*+?^${}()|\\/-]/g, '\\$&');
+    }
+  }
+
+  return new RegExp(type === 'PFX' ? `^${source}` : `${source}$`);
+}
+
+/**
+ * Parse the contents of a Hunspell .aff file
+ */
+export function parseAffix(text: string): AffixData {
+  const affix: AffixData = {
+    encoding: 'UTF-8',
+    flagType: 'char',
+    prefixes: new Map(),
+    suffixes: new Map(),
+    flagAliases: [[]],
+  };
+
+  const lines = text.replace(/^\uFEFF/, '').split(/\r?\n/);
+  let seenAliasHeader = false;
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i].trim();
+    if (!line || line.startsWith('#')) continue;
+
+    const parts = line.split(/\s+/);
+    const keyword = parts[0];
+
+    switch (keyword) {
+      case 'SET':
+        affix.encoding = parts[1] || 'UTF-8';
+        break;
+
+      case 'FLAG':
+        if (parts[1] === 'long' || parts[1] === 'num' || parts[1] === 'UTF-8') {
+          affix.flagType = parts[1];
+        }
+        break;
+
+      case 'AF':
+        // The header line carries a count; alias lines follow it
+        if (!seenAliasHeader) {
+          seenAliasHeader = true;
+          continue;
+        }
+        affix.flagAliases.push(parseFlags(parts[1] || '', { ...affix, flagAliases: [] }));
+        break;
+
+      case 'NEEDAFFIX':
+        affix.needAffixFlag = parts[1];
+        break;
+
+      case 'FORBIDDENWORD':
+        affix.forbiddenWordFlag = parts[1];
+        break;
+
+      case 'ONLYINCOMPOUND':
+        affix.onlyInCompoundFlag = parts[1];
+        break;
+
+      case 'PFX':
+      case 'SFX': {
+        const [, flag, crossProduct, countRaw] = parts;
+        const count = parseInt(countRaw, 10);
+        const rule: AffixRule = {
+          type: keyword,
+          flag,
+          crossProduct: crossProduct === 'Y',
+          entries: [],
+        };
+
+        for (let j = 0; j < count && i + 1 < lines.length; j++) {
+          i++;
+          const entryParts = lines[i].trim().split(/\s+/);
+          if (entryParts[0] !== keyword || entryParts[1] !== flag) {
+            // Malformed rule - re-read this line as a new directive
+            i--;
+            break;
+          }
+
+          const strip = entryParts[2] === '0' ? '' : entryParts[2];
+          const [addRaw, continuationRaw = ''] = (entryParts[3] || '').split('/');
+
+          rule.entries.push({
+            strip,
+            add: addRaw === '0' ? '' : addRaw,
+            continuation: parseFlags(continuationRaw, affix),
+            condition: parseCondition(entryParts[4] || '.', keyword),
+          });
+        }
+
+        const target = keyword === 'PFX' ? affix.prefixes : affix.suffixes;
+        target.set(flag, rule);
+        break;
+      }
+    }
+  }
+
+  return affix;
+}
+
+/**
+ * Parse the contents of a Hunspell .dic file
+ */
+export function parseDic(text: string, affix: AffixData): DictionaryStem[] {
+  const stems: DictionaryStem[] = [];
+  const lines = text.replace(/^\uFEFF/, '').split(/\r?\n/);
+
+  // First line is the approximate word count
+  for (let i = 1; i < lines.length; i++) {
+    // Drop morphological fields ("po:noun") and comments
+    const line = lines[i].split('\t')[0].trim();
+    if (!line || line.startsWith('#')) continue;
+
+    const entry = line.split(/\s+/)[0];
+
+    // Find the first unescaped slash separating stem from flags
+    let slashIndex = -1;
+    for (let j = 0; j < entry.length; j++) {
+      if (entry[j] === '\\') {
+        j++;
+      } else if (entry[j] === '/') {
+        slashIndex = j;
+        break;
+      }
+    }
+
+    const rawStem = slashIndex === -1 ? entry : entry.slice(0, slashIndex);
+    const rawFlags = slashIndex === -1 ? '' : entry.slice(slashIndex + 1);
+
+    stems.push({
+      stem: rawStem.replace(/\\\//g, '/'),
+      flags: parseFlags(rawFlags, affix),
+    });
+  }
+
+  return stems;
+}
+
+/**
+ * Apply a single affix entry to a word, returning null if it doesn't apply
+ */
+function applyEntry(word: string, rule: AffixRule, entry: AffixEntry): string | null {
+  if (!entry.condition.test(word)) return null;
+
+  if (rule.type === 'SFX') {
+    if (entry.strip && !word.endsWith(entry.strip)) return null;
+    return word.slice(0, word.length - entry.strip.length) + entry.add;
+  }
+
+  if (entry.strip && !word.startsWith(entry.strip)) return null;
+  return entry.add + word.slice(entry.strip.length);
+}
+
+/**
+ * Expand a stem into all word forms produced by its affix flags
+ */
+export function expandStem(stem: DictionaryStem, affix: AffixData): string[] {
+  const flags = new Set(stem.flags);
+
+  if (affix.forbiddenWordFlag && flags.has(affix.forbiddenWordFlag)) return [];
+  if (affix.onlyInCompoundFlag && flags.has(affix.onlyInCompoundFlag)) return [];
+
+  const forms = new Set<string>();
+  if (!affix.needAffixFlag || !flags.has(affix.needAffixFlag)) {
+    forms.add(stem.stem);
+  }
+
+  // Suffixes first, remembering which can combine with prefixes
+  const suffixed: Array<{ word: string; crossProduct: boolean }> = [];
+
+  for (const flag of flags) {
+    const rule = affix.suffixes.get(flag);
+    if (!rule) continue;
+
+    for (const entry of rule.entries) {
+      const derived = applyEntry(stem.stem, rule, entry);
+      if (!derived) continue;
+
+      forms.add(derived);
+      suffixed.push({ word: derived, crossProduct: rule.crossProduct });
+
+      // One level of continuation classes
+      for (const continuationFlag of entry.continuation) {
+        const continuationRule = affix.suffixes.get(continuationFlag);
+        if (!continuationRule) continue;
+        for (const continuationEntry of continuationRule.entries) {
+          const twiceDerived = applyEntry(derived, continuationRule, continuationEntry);
+          if (twiceDerived) forms.add(twiceDerived);
+        }
+      }
+    }
+  }
+
+  // Prefixes, including cross products with suffixed forms
+  for (const flag of flags) {
+    const rule = affix.prefixes.get(flag);
+    if (!rule) continue;
+
+    for (const entry of rule.entries) {
+      const derived = applyEntry(stem.stem, rule, entry);
+      if (derived) forms.add(derived);
+
+      if (!rule.crossProduct) continue;
+      for (const { word, crossProduct } of suffixed) {
+        if (!crossProduct) continue;
+        const combined = applyEntry(word, rule, entry);
+        if (combined) forms.add(combined);
+      }
+    }
+  }
+
+  return Array.from(forms);
+}
+
+/**
+ * Build the complete (lowercased) word list for a language pack
+ */
+export function buildWordList(affText: string, dicText: string): Set<string> {
+  const affix = parseAffix(affText);
+  const words = new Set<string>();
+
+  for (const stem of parseDic(dicText, affix)) {
+    for (const form of expandStem(stem, affix)) {
+      words.add(normalizeWord(form).toLowerCase());
+    }
+  }
+
+  return words;
+}
+
+/**
+ * Decode a pack file, honouring the SET encoding declared in the .aff file
+ */
+function decode(buffer: ArrayBuffer, encoding: string): string {
+  try {
+    return new TextDecoder(encoding).decode(buffer);
+  } catch {
+    return new TextDecoder('utf-8').decode(buffer);
+  }
+}
+
+/**
+ * Load a bundled Hunspell language pack
+ * Returns null if no pack is bundled for the language, and throws if a
+ * bundled pack can't be read.
+ */
+export async function loadLanguagePack(language: string): Promise<Set<string> | null> {
+  const baseName = LANGUAGE_PACKS[language];
+  if (!baseName) return null;
+
+  const [affResponse, dicResponse] = await Promise.all([
+    fetch(chrome.runtime.getURL(`dictionaries/${baseName}.aff`)),
+    fetch(chrome.runtime.getURL(`dictionaries/${baseName}.dic`)),
+  ]);
+  // Pack not bundled in this build
+  if (!affResponse.ok || !dicResponse.ok) return null;
+
+  const [affBuffer, dicBuffer] = await Promise.all([
+    affResponse.arrayBuffer(),
+    dicResponse.arrayBuffer(),
+  ]);
+
+  // SET is always ASCII, so a latin1 pass is enough to find it
+  const encoding = parseAffix(decode(affBuffer, 'latin1')).encoding;
+  return buildWordList(decode(affBuffer, encoding), decode(dicBuffer, encoding));
+}
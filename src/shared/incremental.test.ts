@@ -0,0 +1,105 @@
+/**
+ * Fountain Spell Assist - Incremental Checking Tests
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { splitIntoChunks, hashText, createIncrementalChecker } from './incremental';
+import { CheckSettings } from './checker';
+import * as checker from './checker';
+
+vi.mock('./checker', async (importOriginal) => {
+  const original = await importOriginal<typeof import('./checker')>();
+  return { ...original, checkText: vi.fn(original.checkText) };
+});
+
+const settings: CheckSettings = { customDictionary: new Set(), grammarCheck: false };
+
+/** Text of each chunk */
+function chunkTexts(text: string): string[] {
+  return splitIntoChunks(text).map(({ start, end }) => text.slice(start, end));
+}
+
+/** Issues of a whole-text check, in text order */
+function checkAll(text: string) {
+  return checker.checkText(text, settings).sort((a, b) => a.startIndex - b.startIndex);
+}
+
+describe('splitIntoChunks', () => {
+  it('splits after sentence punctuation and at blank lines', () => {
+    const text = 'First one. Second one? "Third!" Fourth\nline\n\nNew paragraph';
+    expect(chunkTexts(text)).toEqual(['First one.', 'Second one?', '"Third!"', 'Fourth\nline', 'New paragraph']);
+  });
+
+  it('keeps single line breaks and inner punctuation inside a chunk', () => {
+    expect(chunkTexts('See file.txt and v1.2\nfor details')).toEqual(['See file.txt and v1.2\nfor details']);
+  });
+
+  it('returns one chunk for short or empty text', () => {
+    expect(splitIntoChunks('')).toEqual([{ start: 0, end: 0 }]);
+    expect(chunkTexts('  Hello world. ')).toEqual(['  Hello world. ']);
+  });
+});
+
+describe('hashText', () => {
+  it('hashes text to a stable 32-bit number', () => {
+    expect(hashText('')).toBe(0x811c9dc5);
+    expect(hashText('hello')).toBe(hashText('hello'));
+    expect(hashText('hello')).not.toBe(hashText('hellp'));
+    const hash = hashText('a long sentence of text');
+    expect(Number.isInteger(hash) && hash >= 0 && hash < 2 ** 32).toBe(true);
+  });
+});
+
+describe('createIncrementalChecker', () => {
+  const checkText = vi.mocked(checker.checkText);
+
+  beforeEach(() => {
+    checkText.mockClear();
+  });
+
+  it('finds the same issues as a whole-text check', () => {
+    const text = 'Teh parser is done. We shipped the\nthe langauge update!\n\nNext weeek, docs. Thanks.';
+    expect(createIncrementalChecker().check(text, settings, 0)).toEqual(checkAll(text));
+  });
+
+  it('re-checks only the chunks that changed and moves the rest', () => {
+    const incremental = createIncrementalChecker();
+    const before = 'Teh first sentence. A second sentence. The thrid one.';
+    incremental.check(before, settings, 0);
+    expect(checkText).toHaveBeenCalledTimes(3);
+
+    checkText.mockClear();
+    const after = 'Teh first sentence has grown. A second sentence. The thrid one.';
+    const issues = incremental.check(after, settings, 0);
+
+    expect(checkText).toHaveBeenCalledTimes(1);
+    expect(checkText).toHaveBeenCalledWith('Teh first sentence has grown.', settings);
+    expect(issues).toEqual(checkAll(after));
+    expect(issues.map((issue) => after.slice(issue.startIndex, issue.endIndex))).toEqual(['Teh', 'thrid']);
+  });
+
+  it('checks repeated chunks once', () => {
+    createIncrementalChecker().check('Thanks. Thanks. Thanks.', settings, 0);
+    expect(checkText).toHaveBeenCalledTimes(1);
+  });
+
+  it('discards cached results when the revision changes', () => {
+    const incremental = createIncrementalChecker();
+    const text = 'Run kubectl now.';
+    expect(incremental.check(text, settings, 0)).toHaveLength(1);
+
+    const withPack = { ...settings, domains: ['software' as const] };
+    expect(incremental.check(text, withPack, 0)).toHaveLength(1);
+    expect(incremental.check(text, withPack, 1)).toHaveLength(0);
+  });
+
+  it('forgets chunks that left the text', () => {
+    const incremental = createIncrementalChecker();
+    incremental.check('Old sentence. Kept one.', settings, 0);
+    incremental.check('Kept one.', settings, 0);
+
+    checkText.mockClear();
+    incremental.check('Old sentence. Kept one.', settings, 0);
+    expect(checkText).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,121 @@
+/**
+ * Fountain Spell Assist - Incremental Checking
+ *
+ * Long documents are checked chunk by chunk: the text is split into sentences
+ * and paragraphs, each chunk's issues are cached under a hash of its text, and
+ * an edit only re-checks the chunks it changed. Cached issues are stored
+ * relative to their chunk and moved to wherever the chunk now starts.
+ *
+ * Chunks end after sentence punctuation and at blank lines, where the spelling
+ * checks never look across: repeated words and joins need a whitespace-only
+ * gap within a paragraph, and the context model starts a new sentence after
+ * punctuation and line breaks. So the issues are the same as for a check of
+ * the whole text.
+ */
+
+import { Issue } from './types';
+import { checkText, CheckSettings } from './checker';
+
+/** A slice of text checked on its own */
+export interface TextChunk {
+  start: number;
+  end: number;
+}
+
+/** Sentence punctuation, optionally followed by closing quotes or brackets */
+const SENTENCE_END = /[.!?]["'’”)\]]{0,3}$/;
+
+/** Runs of whitespace, the only places a chunk can end */
+const WHITESPACE = /\s+/g;
+
+/**
+ * Split text into sentence and paragraph chunks
+ * The whitespace between chunks belongs to neither.
+ */
+export function splitIntoChunks(text: string): TextChunk[] {
+  const chunks: TextChunk[] = [];
+  let start = 0;
+
+  for (const match of text.matchAll(WHITESPACE)) {
+    const end = match.index!;
+    if (end === 0 || end + match[0].length === text.length) continue;
+
+    const isParagraphBreak = match[0].indexOf('\n') !== match[0].lastIndexOf('\n');
+    if (isParagraphBreak || SENTENCE_END.test(text.slice(Math.max(start, end - 4), end))) {
+      chunks.push({ start, end });
+      start = end + match[0].length;
+    }
+  }
+
+  if (start < text.length || chunks.length === 0) chunks.push({ start, end: text.length });
+  return chunks;
+}
+
+/**
+ * Hash text to a 32-bit number (FNV-1a)
+ */
+export function hashText(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/** Checks one field's text, reusing results for chunks that didn't change */
+export interface IncrementalChecker {
+  /**
+   * Find all issues in text, in text order
+   * The revision must change whenever the settings or registered word lists
+   * do; cached results from another revision are discarded.
+   */
+  check(text: string, settings: CheckSettings, revision: number): Issue[];
+}
+
+/** Issues of one chunk, with offsets relative to the chunk */
+interface CachedChunk {
+  text: string;
+  issues: Issue[];
+}
+
+/**
+ * Create an incremental checker for one field
+ */
+export function createIncrementalChecker(): IncrementalChecker {
+  let cache = new Map<number, CachedChunk>();
+  let cacheRevision: number | null = null;
+
+  return {
+    check(text, settings, revision) {
+      if (revision !== cacheRevision) {
+        cache = new Map();
+        cacheRevision = revision;
+      }
+
+      // Only chunks still in the text are kept for next time
+      const nextCache = new Map<number, CachedChunk>();
+      const issues: Issue[] = [];
+
+      for (const { start, end } of splitIntoChunks(text)) {
+        const chunkText = text.slice(start, end);
+        const hash = hashText(chunkText);
+
+        // A hash collision is treated as a change
+        let cached = cache.get(hash) ?? nextCache.get(hash);
+        if (!cached || cached.text !== chunkText) {
+          const sorted = checkText(chunkText, settings).sort((a, b) => a.startIndex - b.startIndex);
+          cached = { text: chunkText, issues: sorted };
+        }
+        nextCache.set(hash, cached);
+
+        for (const issue of cached.issues) {
+          issues.push({ ...issue, startIndex: issue.startIndex + start, endIndex: issue.endIndex + start });
+        }
+      }
+
+      cache = nextCache;
+      return issues;
+    },
+  };
+}
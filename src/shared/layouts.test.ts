@@ -0,0 +1,67 @@
+/**
+ * Fountain Spell Assist - Keyboard Layout Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { getAdjacentKeys, areAdjacentKeys } from './layouts';
+
+describe('getAdjacentKeys', () => {
+  it('includes side and diagonal neighbours', () => {
+    expect([...getAdjacentKeys('d')].sort()).toEqual(['c', 'e', 'f', 'r', 's', 'x']);
+    expect([...getAdjacentKeys('g', 'qwerty')].sort()).toEqual(['b', 'f', 'h', 't', 'v', 'y']);
+  });
+
+  it('stops at the edges of the keyboard', () => {
+    expect([...getAdjacentKeys('q')].sort()).toEqual(['a', 'w']);
+    expect([...getAdjacentKeys('m')].sort()).toEqual(['j', 'k', 'n']);
+  });
+
+  it('leaves out punctuation keys', () => {
+    expect([...getAdjacentKeys('p')].sort()).toEqual(['l', 'o']);
+    expect(getAdjacentKeys(';').size).toBe(0);
+  });
+
+  it('ignores case', () => {
+    expect(getAdjacentKeys('D')).toEqual(getAdjacentKeys('d'));
+  });
+});
+
+describe('areAdjacentKeys', () => {
+  it('follows the QWERTZ layout', () => {
+    expect(areAdjacentKeys('z', 't', 'qwertz')).toBe(true);
+    expect(areAdjacentKeys('y', 'x', 'qwertz')).toBe(true);
+    expect(areAdjacentKeys('l', 'ö', 'qwertz')).toBe(true);
+    expect(areAdjacentKeys('z', 't', 'qwerty')).toBe(false);
+  });
+
+  it('follows the AZERTY layout', () => {
+    expect(areAdjacentKeys('a', 'q', 'azerty')).toBe(true);
+    expect(areAdjacentKeys('q', 'w', 'azerty')).toBe(true);
+    expect(areAdjacentKeys('l', 'm', 'azerty')).toBe(true);
+    expect(areAdjacentKeys('a', 's', 'azerty')).toBe(false);
+  });
+
+  it('follows the Dvorak layout', () => {
+    expect(areAdjacentKeys('e', 'u', 'dvorak')).toBe(true);
+    expect(areAdjacentKeys('e', 'p', 'dvorak')).toBe(true);
+    expect(areAdjacentKeys('t', 'n', 'dvorak')).toBe(true);
+    expect(areAdjacentKeys('e', 'r', 'dvorak')).toBe(false);
+  });
+
+  it('follows the Colemak layout', () => {
+    expect(areAdjacentKeys('t', 'd', 'colemak')).toBe(true);
+    expect(areAdjacentKeys('n', 'e', 'colemak')).toBe(true);
+    expect(areAdjacentKeys('p', 't', 'colemak')).toBe(true);
+    expect(areAdjacentKeys('t', 'y', 'colemak')).toBe(false);
+  });
+
+  it('is symmetric on every layout', () => {
+    for (const layout of ['qwerty', 'qwertz', 'azerty', 'dvorak', 'colemak'] as const) {
+      for (const key of 'abcdefghijklmnopqrstuvwxyz') {
+        for (const neighbour of getAdjacentKeys(key, layout)) {
+          expect(areAdjacentKeys(neighbour, key, layout)).toBe(true);
+        }
+      }
+    }
+  });
+});
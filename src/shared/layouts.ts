@@ -0,0 +1,77 @@
+/**
+ * Fountain Spell Assist - Keyboard Layouts
+ *
+ * A slip of the finger usually lands on a neighbouring key, so suggestions
+ * that differ from a typo by one adjacent key are ranked higher. Which keys
+ * are adjacent depends on the layout: "y" sits next to "t" on QWERTY but next
+ * to "x" on QWERTZ.
+ *
+ * Each layout is described by its three letter rows. Rows are staggered, each
+ * starting a little further right than the one above, so a key touches its
+ * left and right neighbours, the two keys above it and the two keys below it.
+ */
+
+import { KeyboardLayout } from './types';
+
+/** Letter rows of each layout, top to bottom, punctuation keys included */
+const LAYOUT_ROWS: Record<KeyboardLayout, string[]> = {
+  qwerty: ['qwertyuiop[', "asdfghjkl;'", 'zxcvbnm,./'],
+  qwertz: ['qwertzuiopü+', 'asdfghjklöä#', 'yxcvbnm,.-'],
+  azerty: ['azertyuiop^$', 'qsdfghjklmù*', 'wxcvbn,;:!'],
+  dvorak: ["',.pyfgcrl/=", 'aoeuidhtns-', ';qjkxbmwvz'],
+  colemak: ['qwfpgjluy;[', "arstdhneio'", 'zxcvbkm,./'],
+};
+
+/** Keys that can appear in a word */
+const LETTER = /^\p{L}$/u;
+
+/** Adjacency maps built so far, by layout */
+const adjacencyMaps = new Map<KeyboardLayout, Map<string, Set<string>>>();
+
+/**
+ * Build the letter -> neighbouring letters map for a layout
+ */
+function buildAdjacencyMap(rows: string[]): Map<string, Set<string>> {
+  const map = new Map<string, Set<string>>();
+  const keyAt = (row: number, column: number) => rows[row]?.[column];
+
+  rows.forEach((keys, row) => {
+    [...keys].forEach((key, column) => {
+      if (!LETTER.test(key)) return;
+
+      const neighbours = [
+        keyAt(row, column - 1),
+        keyAt(row, column + 1),
+        // The row above starts further left, the row below further right
+        keyAt(row - 1, column),
+        keyAt(row - 1, column + 1),
+        keyAt(row + 1, column - 1),
+        keyAt(row + 1, column),
+      ];
+      map.set(key, new Set(neighbours.filter((neighbour): neighbour is string =>
+        neighbour !== undefined && LETTER.test(neighbour)
+      )));
+    });
+  });
+
+  return map;
+}
+
+/**
+ * Get the letters next to a key on a layout
+ */
+export function getAdjacentKeys(key: string, layout: KeyboardLayout = 'qwerty'): ReadonlySet<string> {
+  let map = adjacencyMaps.get(layout);
+  if (!map) {
+    map = buildAdjacencyMap(LAYOUT_ROWS[layout] ?? LAYOUT_ROWS.qwerty);
+    adjacencyMaps.set(layout, map);
+  }
+  return map.get(key.toLowerCase()) ?? new Set();
+}
+
+/**
+ * Check if two keys are next to each other on a layout
+ */
+export function areAdjacentKeys(a: string, b: string, layout: KeyboardLayout = 'qwerty'): boolean {
+  return getAdjacentKeys(a, layout).has(b.toLowerCase());
+}
@@ -67,8 +67,8 @@ export async function setSiteSettings(
 /**
  * Add a word to the custom dictionary
  */
-export async function addToDictionary(word: string): Promise<boolean> {
-  return sendMessage({ type: 'ADD_TO_DICTIONARY', word });
+export async function addToDictionary(word: string, caseSensitive?: boolean): Promise<boolean> {
+  return sendMessage({ type: 'ADD_TO_DICTIONARY', word, caseSensitive });
 }
 
 /**
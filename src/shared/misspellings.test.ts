@@ -0,0 +1,22 @@
+/**
+ * Fountain Spell Assist - Common Misspelling Table Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { COMMON_MISSPELLINGS } from './misspellings';
+import { isWordCorrect } from './dictionary';
+
+describe('COMMON_MISSPELLINGS', () => {
+  it('lists lowercase typos with a different fix', () => {
+    for (const [typo, word] of COMMON_MISSPELLINGS) {
+      expect(typo, typo).toBe(typo.toLowerCase());
+      expect(word, typo).not.toBe(typo);
+    }
+  });
+
+  it('only lists words the checker flags', () => {
+    for (const typo of COMMON_MISSPELLINGS.keys()) {
+      expect(isWordCorrect(typo, new Set()), typo).toBe(false);
+    }
+  });
+});
@@ -0,0 +1,40 @@
+/**
+ * Fountain Spell Assist - Common Misspellings
+ *
+ * A curated table of typos people make all the time, with the word they
+ * meant. A listed typo's fix is the first suggestion and the one auto-correct
+ * applies, and a listed typo in capitals is never taken for an acronym
+ * ("TEH").
+ */
+
+/** Common typos and the word they are meant to be */
+export const COMMON_MISSPELLINGS: ReadonlyMap<string, string> = new Map(Object.entries({
+  abscence: 'absence', accomodate: 'accommodate', accross: 'across', acheive: 'achieve',
+  acn: 'can', acording: 'according', adn: 'and', agian: 'again', agressive: 'aggressive',
+  alot: 'a lot', anual: 'annual', apparantly: 'apparently', aquire: 'acquire',
+  arguement: 'argument', athiest: 'atheist', beacuse: 'because', becasue: 'because',
+  becuase: 'because', begining: 'beginning', beleive: 'believe', buisness: 'business',
+  calender: 'calendar', cemetary: 'cemetery', commited: 'committed', completly: 'completely',
+  concious: 'conscious', curiousity: 'curiosity', definately: 'definitely',
+  definatly: 'definitely', dilemna: 'dilemma', disapoint: 'disappoint', doesnt: "doesn't",
+  dont: "don't", embarass: 'embarrass', enviroment: 'environment', existance: 'existence',
+  experiance: 'experience', familar: 'familiar', finaly: 'finally', foriegn: 'foreign',
+  freind: 'friend', gaurd: 'guard', goverment: 'government', happend: 'happened',
+  harrass: 'harass', hte: 'the', idaes: 'ideas', immediatly: 'immediately',
+  independant: 'independent', insted: 'instead', knowlege: 'knowledge', liason: 'liaison',
+  libary: 'library', lisence: 'license', maintainance: 'maintenance', millenium: 'millennium',
+  mispell: 'misspell', neccessary: 'necessary', necesary: 'necessary', noticable: 'noticeable',
+  occassion: 'occasion', occured: 'occurred', occurence: 'occurrence',
+  occurrance: 'occurrence', ommision: 'omission', persistant: 'persistent',
+  posession: 'possession', prefered: 'preferred', probaly: 'probably',
+  pronounciation: 'pronunciation', publically: 'publicly', realy: 'really',
+  reccomend: 'recommend', recieve: 'receive', recomend: 'recommend', referance: 'reference',
+  relevent: 'relevant', religous: 'religious', remeber: 'remember', resistence: 'resistance',
+  responsability: 'responsibility', rythm: 'rhythm', seige: 'siege', sentance: 'sentence',
+  seperate: 'separate', shoudl: 'should', similiar: 'similar', sincerly: 'sincerely',
+  speach: 'speech', succesful: 'successful', successfull: 'successful', suprise: 'surprise',
+  taht: 'that', teh: 'the', tendancy: 'tendency', thier: 'their', threshhold: 'threshold',
+  tommorow: 'tomorrow', tomorow: 'tomorrow', tounge: 'tongue', truely: 'truly',
+  untill: 'until', usualy: 'usually', whcih: 'which', wich: 'which', wierd: 'weird',
+  wiht: 'with', writting: 'writing', yeild: 'yield',
+}));
@@ -0,0 +1,318 @@
+/**
+ * Fountain Spell Assist - Morphological Affix Rules
+ *
+ * Accepts inflected and derived forms of known words ("deployments",
+ * "refactored", "unhelpfully") by stripping common English suffixes and
+ * prefixes until a known stem is found. Spelling changes are enforced, and
+ * irregular words don't take regular endings, so "comeing", "happyness" and
+ * "runned" stay misspelled. The same rules let suggestions be built from a
+ * corrected stem with the original suffix re-attached.
+ */
+
+/** Marker restore value: undo a doubled final consonant ("stopped" -> "stop") */
+const UNDOUBLE = '<undouble>';
+
+/** Suffix rules: strip the suffix, then try each restore ending */
+const SUFFIX_RULES: Array<{ suffix: string; restore: string[] }> = [
+  { suffix: 'ies', restore: ['y'] },
+  { suffix: 'es', restore: [''] },
+  { suffix: 's', restore: [''] },
+  { suffix: 'ied', restore: ['y'] },
+  { suffix: 'ed', restore: ['', 'e', UNDOUBLE] },
+  { suffix: 'ing', restore: ['', 'e', UNDOUBLE] },
+  { suffix: 'ier', restore: ['y'] },
+  { suffix: 'er', restore: ['', 'e', UNDOUBLE] },
+  { suffix: 'iest', restore: ['y'] },
+  { suffix: 'est', restore: ['', 'e', UNDOUBLE] },
+  { suffix: 'ily', restore: ['y'] },
+  { suffix: 'ally', restore: [''] },
+  { suffix: 'ly', restore: ['', 'le', 'e'] },
+  { suffix: 'iness', restore: ['y'] },
+  { suffix: 'ness', restore: [''] },
+  { suffix: 'ment', restore: [''] },
+  { suffix: 'iful', restore: ['y'] },
+  { suffix: 'ful', restore: [''] },
+  { suffix: 'less', restore: [''] },
+  { suffix: 'able', restore: ['', 'e', UNDOUBLE] },
+  { suffix: 'ation', restore: ['e', ''] },
+];
+
+/** Prefixes that attach to a complete word */
+const PREFIXES = [
+  'anti', 'auto', 'co', 'counter', 'de', 'dis', 'inter', 'micro', 'mis', 'multi',
+  'non', 'out', 'over', 'post', 'pre', 're', 'semi', 'sub', 'super', 'un', 'under',
+];
+
+/** Prefixes that are only written with a hyphen ("ex-wife", "mid-year", "self-hosted") */
+const HYPHENATED_PREFIXES = ['ex', 'mid', 'self'];
+
+/**
+ * Prefixes that form new words from almost any word when written closed
+ * ("redeploy", "unhelpful"); the others only make the words the dictionary
+ * lists ("antivirus", not "antiknow")
+ */
+const OPEN_PREFIXES = new Set(['dis', 'mis', 'non', 'out', 'over', 'pre', 're', 'un', 'under']);
+
+/** Suffixes that inflect a word ("stops", "stopped") rather than derive a new one */
+const INFLECTIONS = new Set(['s', 'es', 'ies', 'ed', 'ied', 'ing', 'er', 'ier', 'est', 'iest']);
+
+/** Inflections after which a word takes no further suffix ("comesing") */
+const FINAL_INFLECTIONS = new Set(['s', 'es', 'ies', 'ed', 'ied']);
+
+/** Verbs whose past tense is irregular, so never "-ed" ("runned", "thinked") */
+const IRREGULAR_VERBS = [
+  'arise', 'awake', 'bear', 'beat', 'become', 'begin', 'bet', 'bind', 'bite', 'bleed',
+  'blow', 'break', 'breed', 'bring', 'build', 'buy', 'catch', 'choose', 'cling', 'come',
+  'creep', 'cut', 'deal', 'dig', 'draw', 'drink', 'drive', 'eat', 'fall', 'feed', 'feel',
+  'fight', 'find', 'flee', 'fling', 'fly', 'forbid', 'forget', 'forgive', 'freeze', 'get',
+  'give', 'grind', 'grow', 'hear', 'hide', 'hit', 'hold', 'hurt', 'keep', 'know', 'leave',
+  'lend', 'let', 'lose', 'make', 'mean', 'meet', 'pay', 'put', 'read', 'ride', 'rise',
+  'run', 'say', 'see', 'seek', 'sell', 'send', 'set', 'shake', 'shoot', 'shrink', 'shut',
+  'sing', 'sink', 'sit', 'sleep', 'slide', 'speak', 'spend', 'spin', 'split', 'spread',
+  'spring', 'stand', 'steal', 'stick', 'sting', 'stink', 'strike', 'swear', 'sweep', 'swim',
+  'swing', 'take', 'teach', 'tell', 'think', 'throw', 'understand', 'wake', 'wear', 'weep',
+  'win', 'write',
+];
+
+/** Nouns whose plural is irregular, so never "-s" ("childs", "womans") */
+const IRREGULAR_NOUNS = [
+  'analysis', 'child', 'crisis', 'criterion', 'deer', 'half', 'life', 'loaf', 'mouse',
+  'phenomenon', 'self', 'sheep', 'shelf', 'thesis', 'thief', 'tooth', 'wife', 'wolf', 'woman',
+];
+
+/** Suffixes each irregular word never takes ("publically" is "publicly") */
+const IRREGULAR_FORMS = new Map<string, string[]>([
+  ...IRREGULAR_VERBS.map((verb): [string, string[]] => [verb, ['ed', 'ied']]),
+  ...IRREGULAR_NOUNS.map((noun): [string, string[]] => [noun, ['s', 'es']]),
+  ['good', ['er', 'est']],
+  ['bad', ['er', 'est']],
+  ['public', ['ally']],
+]);
+
+/**
+ * Suffixes that may follow an inflection ("excitedly", "computers"); any
+ * suffix may follow the others. "Sincerly" is not "since" + "er" + "ly".
+ */
+const SUFFIXES_AFTER_INFLECTION: Record<string, string[]> = {
+  s: [], es: [], ies: [], ed: ['ly', 'ness'], ied: ['ly', 'ness'], ing: ['s', 'ly'],
+  er: ['s'], ier: [], est: [], iest: [],
+};
+
+/** Suffixes beginning with "i" that replace a final consonant + "y" */
+const Y_REPLACING_SUFFIXES = new Set(['ies', 'ied', 'ier', 'iest', 'ily', 'iness', 'iful']);
+
+/** Closed-class words that never take affixes ("thes" is not "the" + "s") */
+const NON_INFLECTING = new Set([
+  'the', 'and', 'but', 'for', 'nor', 'yet', 'this', 'that', 'these', 'those',
+  'with', 'from', 'into', 'onto', 'upon', 'than', 'then', 'they', 'them', 'their',
+  'there', 'what', 'when', 'where', 'which', 'who', 'whom', 'whose', 'why', 'how',
+  'his', 'her', 'its', 'our', 'your', 'you', 'she', 'him', 'not', 'are', 'was',
+  'were', 'has', 'had', 'have', 'been', 'can', 'may', 'will', 'shall', 'would',
+  'could', 'should', 'must', 'some', 'any', 'all', 'each', 'both', 'few', 'very',
+  'too', 'also', 'just', 'only', 'here',
+]);
+
+/** Multi-syllable verbs stressed on the last syllable, which double like "stop" */
+const FINAL_STRESS_STEMS = new Set([
+  'occur', 'begin', 'prefer', 'refer', 'commit', 'admit', 'control', 'forget',
+  'regret', 'permit', 'submit', 'omit', 'equip', 'compel', 'excel', 'propel',
+  'rebel', 'transfer', 'defer', 'deter', 'infer', 'confer', 'incur', 'recur',
+  'patrol', 'acquit', 'forbid',
+]);
+
+const MIN_STEM_LENGTH = 3;
+
+/** Most suffixes stripped from one word; one prefix may come on top */
+const MAX_AFFIX_DEPTH = 2;
+
+/**
+ * Check if a stem must double its final consonant before a vowel suffix
+ * ("stop" -> "stopped", "occur" -> "occurred"), so the undoubled form is wrong
+ */
+function requiresDoubling(stem: string): boolean {
+  if (FINAL_STRESS_STEMS.has(stem)) return true;
+
+  // Single-syllable consonant-vowel-consonant stems, excluding w/x/y endings
+  const isCVC = /[^aeiou][aeiou][^aeiouwxy]$/.test(stem);
+  const syllables = stem.match(/[aeiouy]+/g)?.length ?? 0;
+  return isCVC && syllables === 1;
+}
+
+/**
+ * Check if a word ending in "e" keeps it before a suffix
+ * A suffix starting with "e" absorbs it ("agreed", "freer"), a silent "e" is
+ * dropped before a vowel ("coming", "valuing"; but "agreeing", and
+ * "changeable" keeps it to stay soft), and an "-ue" drops it before "-ly" and
+ * "-ment" ("truly", "argument").
+ */
+function keepsFinalE(stem: string, suffix: string): boolean {
+  if (suffix.startsWith('e')) return false;
+  if (/[^eoy]e$/.test(stem) && /^[aiou]/.test(suffix)) {
+    return /[cg]e$/.test(stem) && suffix === 'able';
+  }
+  return !(stem.endsWith('ue') && (suffix === 'ly' || suffix === 'ment'));
+}
+
+/**
+ * Check if a stem is spelled the same before a suffix
+ * Besides a final "e" (see keepsFinalE), a consonant + "y" becomes "i"
+ * except before "-ing" or in one-syllable words ("shyness", not "happyness").
+ */
+function keepsSpelling(stem: string, suffix: string): boolean {
+  if (stem.endsWith('e')) return keepsFinalE(stem, suffix);
+  return !/[aeiou].*[^aeiou]y$/.test(stem) || suffix === 'ing';
+}
+
+/**
+ * Check if a word with an irregular form never takes a suffix ("run" + "ed"),
+ * looking through one prefix ("rerun" + "ed")
+ */
+function isIrregularWith(stem: string, suffix: string): boolean {
+  const blocked = (word: string) => IRREGULAR_FORMS.get(word)?.includes(suffix) ?? false;
+  if (blocked(stem)) return true;
+  return [...OPEN_PREFIXES].some((prefix) => stem.startsWith(prefix) && blocked(stem.slice(prefix.length)));
+}
+
+/**
+ * Get every stem reachable by removing one suffix, with the suffix removed
+ */
+function stripSuffixes(word: string): Array<{ stem: string; suffix: string }> {
+  const stems: Array<{ stem: string; suffix: string }> = [];
+
+  for (const { suffix, restore } of SUFFIX_RULES) {
+    if (!word.endsWith(suffix)) continue;
+    const base = word.slice(0, word.length - suffix.length);
+
+    for (const ending of restore) {
+      let stem: string;
+      if (ending === UNDOUBLE) {
+        const last = base[base.length - 1];
+        if (base.length <= MIN_STEM_LENGTH || last !== base[base.length - 2] || /[aeiou]/.test(last)) continue;
+        stem = base.slice(0, -1);
+      } else {
+        if (base.length + ending.length < MIN_STEM_LENGTH) continue;
+        // "occured" and "stoped" are misspellings, not forms of "occur"/"stop"
+        if (!ending && /^[aei]/.test(suffix) && requiresDoubling(base)) continue;
+        // "comeing" and "happyness" are misspellings, not forms of "come"/"happy"
+        if (!ending && !keepsSpelling(base, suffix)) continue;
+        // ...and so are "completly" and "noticable"
+        if (ending === 'e' && keepsFinalE(base + ending, suffix)) continue;
+        stem = base + ending;
+      }
+      if (!isIrregularWith(stem, suffix)) stems.push({ stem, suffix });
+    }
+  }
+
+  return stems;
+}
+
+/**
+ * Find a known stem that a word is derived from
+ * Up to MAX_AFFIX_DEPTH suffixes and one prefix are stripped; returns null
+ * if no chain of affix rules leads to a known word.
+ */
+export function findKnownStem(
+  word: string,
+  isKnown: (stem: string) => boolean,
+  depth: number = 0,
+  prefixed: boolean = false,
+  outerSuffix?: string
+): string | null {
+  const stems: Array<{ stem: string; suffix?: string }> = [];
+  if (depth < MAX_AFFIX_DEPTH) {
+    for (const { stem, suffix } of stripSuffixes(word)) {
+      const followers = SUFFIXES_AFTER_INFLECTION[suffix];
+      if (outerSuffix !== undefined && followers && !followers.includes(outerSuffix)) continue;
+      stems.push({ stem, suffix });
+    }
+  }
+  if (!prefixed) {
+    for (const prefix of OPEN_PREFIXES) {
+      if (word.startsWith(prefix) && word.length - prefix.length >= MIN_STEM_LENGTH) {
+        stems.push({ stem: word.slice(prefix.length) });
+      }
+    }
+  }
+
+  for (const { stem, suffix } of stems) {
+    if (NON_INFLECTING.has(stem)) continue;
+    if (isKnown(stem)) return stem;
+
+    const deeper = suffix === undefined
+      ? findKnownStem(stem, isKnown, depth, true, outerSuffix)
+      : findKnownStem(stem, isKnown, depth + 1, prefixed, suffix);
+    if (deeper) return deeper;
+  }
+
+  return null;
+}
+
+/**
+ * Check if a word is a prefix that can lead a hyphenated compound
+ * ("pre-order", "anti-virus", "ex-wife")
+ */
+export function isCompoundPrefix(word: string): boolean {
+  const lowerWord = word.toLowerCase();
+  return PREFIXES.includes(lowerWord) || HYPHENATED_PREFIXES.includes(lowerWord);
+}
+
+/**
+ * Check if a word is a known word with one inflection ("companies", "stopped")
+ * Stricter than findKnownStem: no prefix, no derivation, and the known word
+ * isn't already a plural or past tense ("comesing").
+ */
+export function isSimpleInflection(word: string, isKnown: (stem: string) => boolean): boolean {
+  return stripSuffixes(word).some(({ stem, suffix }) =>
+    INFLECTIONS.has(suffix) &&
+    !NON_INFLECTING.has(stem) &&
+    isKnown(stem) &&
+    !stripSuffixes(stem).some((inner) => FINAL_INFLECTIONS.has(inner.suffix) && isKnown(inner.stem))
+  );
+}
+
+/**
+ * Split a word into one optional prefix, a core and one optional suffix
+ * Used to correct the core of a misspelled derived word. The unsplit word
+ * itself is not included.
+ */
+export function splitAffixes(word: string): Array<{ prefix: string; core: string; suffix: string }> {
+  const prefixes = ['', ...PREFIXES.filter((p) => word.startsWith(p))];
+  const suffixes = ['', ...SUFFIX_RULES.map((r) => r.suffix).filter((s) => word.endsWith(s))];
+  const splits: Array<{ prefix: string; core: string; suffix: string }> = [];
+
+  for (const prefix of prefixes) {
+    for (const suffix of suffixes) {
+      if (!prefix && !suffix) continue;
+      const core = word.slice(prefix.length, word.length - suffix.length);
+      if (core.length >= MIN_STEM_LENGTH && !NON_INFLECTING.has(core)) {
+        splits.push({ prefix, core, suffix });
+        // The core may have lost a silent "e" ("recieved" -> "recieve" + "ed")
+        if (/^[aei]/.test(suffix) && !core.endsWith('e')) splits.push({ prefix, core: core + 'e', suffix });
+      }
+    }
+  }
+
+  return splits;
+}
+
+/**
+ * Attach a suffix to a stem, applying English spelling changes
+ * ("create" + "ed" -> "created", "company" + "ies" -> "companies")
+ */
+export function attachSuffix(stem: string, suffix: string): string {
+  if (!suffix) return stem;
+
+  if (Y_REPLACING_SUFFIXES.has(suffix) && /[^aeiou]y$/.test(stem)) {
+    return stem.slice(0, -1) + suffix;
+  }
+
+  if (/[^aeiou]y$/.test(stem) && /^(es|ed|er|est|ness|ful|ly)$/.test(suffix)) {
+    return stem.slice(0, -1) + 'i' + suffix;
+  }
+
+  if (stem.endsWith('e') && /^[aei]/.test(suffix)) {
+    return stem.slice(0, -1) + suffix;
+  }
+
+  return stem + suffix;
+}
@@ -0,0 +1,58 @@
+/**
+ * Fountain Spell Assist - Phonetic Matching Tests
+ *
+ * Tests for Double Metaphone keys and the phonetic word index.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  doubleMetaphone,
+  createPhoneticIndex,
+  addToPhoneticIndex,
+  removeFromPhoneticIndex,
+  searchPhoneticIndex,
+} from './phonetic';
+
+describe('doubleMetaphone', () => {
+  it('matches reference keys', () => {
+    expect(doubleMetaphone('Smith')).toEqual(['SM0', 'XMT']);
+    expect(doubleMetaphone('Schmidt')).toEqual(['XMT', 'SMT']);
+    expect(doubleMetaphone('Xavier')).toEqual(['SF', 'SFR']);
+    expect(doubleMetaphone('Knight')).toEqual(['NT', 'NT']);
+    expect(doubleMetaphone('laugh')).toEqual(['LF', 'LF']);
+    expect(doubleMetaphone('edge')).toEqual(['AJ', 'AJ']);
+  });
+
+  it('gives misspellings by ear the same key', () => {
+    expect(doubleMetaphone('fonetic')).toEqual(doubleMetaphone('phonetic'));
+    expect(doubleMetaphone('rythm')).toEqual(doubleMetaphone('rhythm'));
+    expect(doubleMetaphone('definately')).toEqual(doubleMetaphone('definitely'));
+    expect(doubleMetaphone('fizix')).toEqual(doubleMetaphone('physics'));
+  });
+
+  it('ignores case and punctuation', () => {
+    expect(doubleMetaphone("DON'T")).toEqual(doubleMetaphone('dont'));
+  });
+
+  it('truncates keys to four characters', () => {
+    expect(doubleMetaphone('internationalization')[0]).toHaveLength(4);
+  });
+});
+
+describe('phonetic index', () => {
+  it('finds words under either key', () => {
+    const index = createPhoneticIndex(['smith', 'schmidt', 'phonetic']);
+    expect(searchPhoneticIndex(index, 'smyth')).toEqual(expect.arrayContaining(['smith', 'schmidt']));
+    expect(searchPhoneticIndex(index, 'fonetic')).toEqual(['phonetic']);
+  });
+
+  it('adds and removes words', () => {
+    const index = createPhoneticIndex([]);
+    addToPhoneticIndex(index, 'rhythm');
+    expect(searchPhoneticIndex(index, 'rythm')).toEqual(['rhythm']);
+
+    removeFromPhoneticIndex(index, 'rhythm');
+    expect(searchPhoneticIndex(index, 'rythm')).toEqual([]);
+    expect(index.size).toBe(0);
+  });
+});
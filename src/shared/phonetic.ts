@@ -0,0 +1,647 @@
+/**
+ * Fountain Spell Assist - Phonetic Matching
+ *
+ * Double Metaphone (Lawrence Philips) encodes a word by how it sounds, so
+ * misspellings by ear ("fonetic", "fizix") map to the same key as the word
+ * that was meant ("phonetic", "physics"). Each word gets a primary and an
+ * alternate key; the phonetic index files words under both.
+ */
+
+/** Keys are truncated to this length, as in the reference implementation */
+const MAX_KEY_LENGTH = 4;
+
+/**
+ * Compute the Double Metaphone keys for a word
+ * Returns [primary, alternate]; they are equal for most English words.
+ */
+export function doubleMetaphone(word: string): [string, string] {
+  const value = word.toUpperCase().replace(/[^A-ZÇÑ]/g, '');
+  const length = value.length;
+  const last = length - 1;
+  let primary = '';
+  let secondary = '';
+  let current = 0;
+
+  const at = (pos: number): string => (pos >= 0 && pos < length ? value[pos] : '');
+  const stringAt = (start: number, size: number, ...options: string[]): boolean =>
+    start >= 0 && options.includes(value.substring(start, start + size));
+  const isVowel = (pos: number): boolean => 'AEIOUY'.includes(at(pos)) && at(pos) !== '';
+  const add = (main: string, alternate: string = main) => {
+    primary += main;
+    secondary += alternate;
+  };
+
+  const isSlavoGermanic = /W|K|CZ|WITZ/.test(value);
+  const isGermanic = stringAt(0, 4, 'VAN ', 'VON ') || stringAt(0, 3, 'SCH');
+
+  // Silent first letters
+  if (stringAt(0, 2, 'GN', 'KN', 'PN', 'WR', 'PS')) current++;
+
+  // Initial "X" is pronounced "Z" ("Xavier")
+  if (at(0) === 'X') {
+    add('S');
+    current++;
+  }
+
+  while ((primary.length < MAX_KEY_LENGTH || secondary.length < MAX_KEY_LENGTH) && current < length) {
+    switch (at(current)) {
+      case 'A':
+      case 'E':
+      case 'I':
+      case 'O':
+      case 'U':
+      case 'Y':
+        // Only a leading vowel is encoded
+        if (current === 0) add('A');
+        current++;
+        break;
+
+      case 'B':
+        add('P');
+        current += at(current + 1) === 'B' ? 2 : 1;
+        break;
+
+      case 'Ç':
+        add('S');
+        current++;
+        break;
+
+      case 'C':
+        // Germanic "ach" ("bacher", "macher")
+        if (
+          current > 1 &&
+          !isVowel(current - 2) &&
+          stringAt(current - 1, 3, 'ACH') &&
+          at(current + 2) !== 'I' &&
+          (at(current + 2) !== 'E' || stringAt(current - 2, 6, 'BACHER', 'MACHER'))
+        ) {
+          add('K');
+          current += 2;
+          break;
+        }
+
+        if (current === 0 && stringAt(current, 6, 'CAESAR')) {
+          add('S');
+          current += 2;
+          break;
+        }
+
+        if (stringAt(current, 4, 'CHIA')) {
+          add('K');
+          current += 2;
+          break;
+        }
+
+        if (stringAt(current, 2, 'CH')) {
+          if (current > 0 && stringAt(current, 4, 'CHAE')) {
+            add('K', 'X');
+            current += 2;
+            break;
+          }
+
+          // Greek roots ("chemistry", "chorus")
+          if (
+            current === 0 &&
+            (stringAt(current + 1, 5, 'HARAC', 'HARIS') ||
+              stringAt(current + 1, 3, 'HOR', 'HYM', 'HIA', 'HEM')) &&
+            !stringAt(0, 5, 'CHORE')
+          ) {
+            add('K');
+            current += 2;
+            break;
+          }
+
+          if (
+            isGermanic ||
+            stringAt(current - 2, 6, 'ORCHES', 'ARCHIT', 'ORCHID') ||
+            stringAt(current + 2, 1, 'T', 'S') ||
+            ((stringAt(current - 1, 1, 'A', 'O', 'U', 'E') || current === 0) &&
+              stringAt(current + 2, 1, 'L', 'R', 'N', 'M', 'B', 'H', 'F', 'V', 'W', ' '))
+          ) {
+            add('K');
+          } else if (current > 0) {
+            if (stringAt(0, 2, 'MC')) {
+              add('K');
+            } else {
+              add('X', 'K');
+            }
+          } else {
+            add('X');
+          }
+          current += 2;
+          break;
+        }
+
+        // Polish "cz" ("czerny")
+        if (stringAt(current, 2, 'CZ') && !stringAt(current - 2, 4, 'WICZ')) {
+          add('S', 'X');
+          current += 2;
+          break;
+        }
+
+        // Italian "focaccia"
+        if (stringAt(current + 1, 3, 'CIA')) {
+          add('X');
+          current += 3;
+          break;
+        }
+
+        // Double "c", but not "McClellan"
+        if (stringAt(current, 2, 'CC') && !(current === 1 && at(0) === 'M')) {
+          if (stringAt(current + 2, 1, 'I', 'E', 'H') && !stringAt(current + 2, 2, 'HU')) {
+            // "accident", "succeed" vs "bacci"
+            if ((current === 1 && at(current - 1) === 'A') || stringAt(current - 1, 5, 'UCCEE', 'UCCES')) {
+              add('KS');
+            } else {
+              add('X');
+            }
+            current += 3;
+            break;
+          }
+          add('K');
+          current += 2;
+          break;
+        }
+
+        if (stringAt(current, 2, 'CK', 'CG', 'CQ')) {
+          add('K');
+          current += 2;
+          break;
+        }
+
+        if (stringAt(current, 2, 'CI', 'CE', 'CY')) {
+          if (stringAt(current, 3, 'CIO', 'CIE', 'CIA')) {
+            add('S', 'X');
+          } else {
+            add('S');
+          }
+          current += 2;
+          break;
+        }
+
+        add('K');
+        if (stringAt(current + 1, 2, ' C', ' Q', ' G')) {
+          current += 3;
+        } else if (stringAt(current + 1, 1, 'C', 'K', 'Q') && !stringAt(current + 1, 2, 'CE', 'CI')) {
+          current += 2;
+        } else {
+          current++;
+        }
+        break;
+
+      case 'D':
+        if (stringAt(current, 2, 'DG')) {
+          if (stringAt(current + 2, 1, 'I', 'E', 'Y')) {
+            // "edge"
+            add('J');
+            current += 3;
+          } else {
+            // "edgar"
+            add('TK');
+            current += 2;
+          }
+          break;
+        }
+
+        add('T');
+        current += stringAt(current, 2, 'DT', 'DD') ? 2 : 1;
+        break;
+
+      case 'F':
+        add('F');
+        current += at(current + 1) === 'F' ? 2 : 1;
+        break;
+
+      case 'G':
+        if (at(current + 1) === 'H') {
+          if (current > 0 && !isVowel(current - 1)) {
+            add('K');
+            current += 2;
+            break;
+          }
+
+          // "ghislane", "ghost"
+          if (current === 0) {
+            add(at(current + 2) === 'I' ? 'J' : 'K');
+            current += 2;
+            break;
+          }
+
+          // Silent "gh" ("hugh", "bough", "broughton")
+          if (
+            (current > 1 && stringAt(current - 2, 1, 'B', 'H', 'D')) ||
+            (current > 2 && stringAt(current - 3, 1, 'B', 'H', 'D')) ||
+            (current > 3 && stringAt(current - 4, 1, 'B', 'H'))
+          ) {
+            current += 2;
+            break;
+          }
+
+          // "laugh", "tough"
+          if (current > 2 && at(current - 1) === 'U' && stringAt(current - 3, 1, 'C', 'G', 'L', 'R', 'T')) {
+            add('F');
+          } else if (current > 0 && at(current - 1) !== 'I') {
+            add('K');
+          }
+          current += 2;
+          break;
+        }
+
+        if (at(current + 1) === 'N') {
+          if (current === 1 && isVowel(0) && !isSlavoGermanic) {
+            add('KN', 'N');
+          } else if (!stringAt(current + 2, 2, 'EY') && at(current + 1) !== 'Y' && !isSlavoGermanic) {
+            add('N', 'KN');
+          } else {
+            add('KN');
+          }
+          current += 2;
+          break;
+        }
+
+        // "tagliaro"
+        if (stringAt(current + 1, 2, 'LI') && !isSlavoGermanic) {
+          add('KL', 'L');
+          current += 2;
+          break;
+        }
+
+        // Initial "ges-", "gep-", "gel-", ...
+        if (
+          current === 0 &&
+          (at(current + 1) === 'Y' ||
+            stringAt(current + 1, 2, 'ES', 'EP', 'EB', 'EL', 'EY', 'IB', 'IL', 'IN', 'IE', 'EI', 'ER'))
+        ) {
+          add('K', 'J');
+          current += 2;
+          break;
+        }
+
+        // "-ger-", "-gy-"
+        if (
+          (stringAt(current + 1, 2, 'ER') || at(current + 1) === 'Y') &&
+          !stringAt(0, 6, 'DANGER', 'RANGER', 'MANGER') &&
+          !stringAt(current - 1, 1, 'E', 'I') &&
+          !stringAt(current - 1, 3, 'RGY', 'OGY')
+        ) {
+          add('K', 'J');
+          current += 2;
+          break;
+        }
+
+        // Italian "biaggi"
+        if (stringAt(current + 1, 1, 'E', 'I', 'Y') || stringAt(current - 1, 4, 'AGGI', 'OGGI')) {
+          if (isGermanic || stringAt(current + 1, 2, 'ET')) {
+            add('K');
+          } else if (stringAt(current + 1, 4, 'IER ')) {
+            add('J');
+          } else {
+            add('J', 'K');
+          }
+          current += 2;
+          break;
+        }
+
+        add('K');
+        current += at(current + 1) === 'G' ? 2 : 1;
+        break;
+
+      case 'H':
+        // Only keep "h" between vowels or at the start before a vowel
+        if ((current === 0 || isVowel(current - 1)) && isVowel(current + 1)) {
+          add('H');
+          current += 2;
+        } else {
+          current++;
+        }
+        break;
+
+      case 'J':
+        // Spanish "jose", "san jacinto"
+        if (stringAt(current, 4, 'JOSE') || stringAt(0, 4, 'SAN ')) {
+          if ((current === 0 && at(current + 4) === ' ') || stringAt(0, 4, 'SAN ')) {
+            add('H');
+          } else {
+            add('J', 'H');
+          }
+          current++;
+          break;
+        }
+
+        if (current === 0) {
+          add('J', 'A');
+        } else if (isVowel(current - 1) && !isSlavoGermanic && (at(current + 1) === 'A' || at(current + 1) === 'O')) {
+          add('J', 'H');
+        } else if (current === last) {
+          add('J', '');
+        } else if (
+          !stringAt(current + 1, 1, 'L', 'T', 'K', 'S', 'N', 'M', 'B', 'Z') &&
+          !stringAt(current - 1, 1, 'S', 'K', 'L')
+        ) {
+          add('J');
+        }
+        current += at(current + 1) === 'J' ? 2 : 1;
+        break;
+
+      case 'K':
+        add('K');
+        current += at(current + 1) === 'K' ? 2 : 1;
+        break;
+
+      case 'L':
+        if (at(current + 1) === 'L') {
+          // Spanish "cabrillo", "gallegos"
+          if (
+            (current === length - 3 && stringAt(current - 1, 4, 'ILLO', 'ILLA', 'ALLE')) ||
+            ((stringAt(last - 1, 2, 'AS', 'OS') || stringAt(last, 1, 'A', 'O')) &&
+              stringAt(current - 1, 4, 'ALLE'))
+          ) {
+            add('L', '');
+            current += 2;
+            break;
+          }
+          current += 2;
+        } else {
+          current++;
+        }
+        add('L');
+        break;
+
+      case 'M':
+        // "dumb", "thumb"
+        if (
+          (stringAt(current - 1, 3, 'UMB') && (current + 1 === last || stringAt(current + 2, 2, 'ER'))) ||
+          at(current + 1) === 'M'
+        ) {
+          current += 2;
+        } else {
+          current++;
+        }
+        add('M');
+        break;
+
+      case 'N':
+        add('N');
+        current += at(current + 1) === 'N' ? 2 : 1;
+        break;
+
+      case 'Ñ':
+        add('N');
+        current++;
+        break;
+
+      case 'P':
+        if (at(current + 1) === 'H') {
+          add('F');
+          current += 2;
+          break;
+        }
+        add('P');
+        current += stringAt(current + 1, 1, 'P', 'B') ? 2 : 1;
+        break;
+
+      case 'Q':
+        add('K');
+        current += at(current + 1) === 'Q' ? 2 : 1;
+        break;
+
+      case 'R':
+        // French "rogier"
+        if (
+          current === last &&
+          !isSlavoGermanic &&
+          stringAt(current - 2, 2, 'IE') &&
+          !stringAt(current - 4, 2, 'ME', 'MA')
+        ) {
+          add('', 'R');
+        } else {
+          add('R');
+        }
+        current += at(current + 1) === 'R' ? 2 : 1;
+        break;
+
+      case 'S':
+        // Silent "s" ("island", "carlysle")
+        if (stringAt(current - 1, 3, 'ISL', 'YSL')) {
+          current++;
+          break;
+        }
+
+        if (current === 0 && stringAt(current, 5, 'SUGAR')) {
+          add('X', 'S');
+          current++;
+          break;
+        }
+
+        if (stringAt(current, 2, 'SH')) {
+          // Germanic "holm", "heim"
+          add(stringAt(current + 1, 4, 'HEIM', 'HOEK', 'HOLM', 'HOLZ') ? 'S' : 'X');
+          current += 2;
+          break;
+        }
+
+        // Italian and Armenian "sio", "sia"
+        if (stringAt(current, 3, 'SIO', 'SIA') || stringAt(current, 4, 'SIAN')) {
+          if (isSlavoGermanic) {
+            add('S');
+          } else {
+            add('S', 'X');
+          }
+          current += 3;
+          break;
+        }
+
+        // German "sm", "sn", "sl", "sw" and "sz"
+        if ((current === 0 && stringAt(current + 1, 1, 'M', 'N', 'L', 'W')) || stringAt(current + 1, 1, 'Z')) {
+          add('S', 'X');
+          current += stringAt(current + 1, 1, 'Z') ? 2 : 1;
+          break;
+        }
+
+        if (stringAt(current, 2, 'SC')) {
+          if (at(current + 2) === 'H') {
+            // Dutch "schooner", "schenker"
+            if (stringAt(current + 3, 2, 'OO', 'ER', 'EN', 'UY', 'ED', 'EM')) {
+              if (stringAt(current + 3, 2, 'ER', 'EN')) {
+                add('X', 'SK');
+              } else {
+                add('SK');
+              }
+            } else if (current === 0 && !isVowel(3) && at(3) !== 'W') {
+              add('X', 'S');
+            } else {
+              add('X');
+            }
+            current += 3;
+            break;
+          }
+
+          add(stringAt(current + 2, 1, 'I', 'E', 'Y') ? 'S' : 'SK');
+          current += 3;
+          break;
+        }
+
+        // French "resnais", "artois"
+        if (current === last && stringAt(current - 2, 2, 'AI', 'OI')) {
+          add('', 'S');
+        } else {
+          add('S');
+        }
+        current += stringAt(current + 1, 1, 'S', 'Z') ? 2 : 1;
+        break;
+
+      case 'T':
+        if (stringAt(current, 4, 'TION') || stringAt(current, 3, 'TIA', 'TCH')) {
+          add('X');
+          current += 3;
+          break;
+        }
+
+        if (stringAt(current, 2, 'TH') || stringAt(current, 3, 'TTH')) {
+          // "thomas", "thames"
+          if (stringAt(current + 2, 2, 'OM', 'AM') || isGermanic) {
+            add('T');
+          } else {
+            add('0', 'T');
+          }
+          current += 2;
+          break;
+        }
+
+        add('T');
+        current += stringAt(current + 1, 1, 'T', 'D') ? 2 : 1;
+        break;
+
+      case 'V':
+        add('F');
+        current += at(current + 1) === 'V' ? 2 : 1;
+        break;
+
+      case 'W':
+        if (stringAt(current, 2, 'WR')) {
+          add('R');
+          current += 2;
+          break;
+        }
+
+        if (current === 0 && (isVowel(current + 1) || stringAt(current, 2, 'WH'))) {
+          // "wasserman" may also be "vasserman"
+          if (isVowel(current + 1)) {
+            add('A', 'F');
+          } else {
+            add('A');
+          }
+        }
+
+        // Polish "filipowicz", or a silent final "w" ("arnow")
+        if (
+          (current === last && isVowel(current - 1)) ||
+          stringAt(current - 1, 5, 'EWSKI', 'EWSKY', 'OWSKI', 'OWSKY') ||
+          stringAt(0, 3, 'SCH')
+        ) {
+          add('', 'F');
+          current++;
+          break;
+        }
+
+        if (stringAt(current, 4, 'WICZ', 'WITZ')) {
+          add('TS', 'FX');
+          current += 4;
+          break;
+        }
+
+        current++;
+        break;
+
+      case 'X':
+        // French "breaux"
+        if (!(current === last && (stringAt(current - 3, 3, 'IAU', 'EAU') || stringAt(current - 2, 2, 'AU', 'OU')))) {
+          add('KS');
+        }
+        current += stringAt(current + 1, 1, 'C', 'X') ? 2 : 1;
+        break;
+
+      case 'Z':
+        // Chinese "zhao"
+        if (at(current + 1) === 'H') {
+          add('J');
+          current += 2;
+          break;
+        }
+
+        if (stringAt(current + 1, 2, 'ZO', 'ZI', 'ZA') || (isSlavoGermanic && current > 0 && at(current - 1) !== 'T')) {
+          add('S', 'TS');
+        } else {
+          add('S');
+        }
+        current += at(current + 1) === 'Z' ? 2 : 1;
+        break;
+
+      default:
+        current++;
+    }
+  }
+
+  return [primary.slice(0, MAX_KEY_LENGTH), secondary.slice(0, MAX_KEY_LENGTH)];
+}
+
+/** Words filed under their phonetic keys */
+export type PhoneticIndex = Map<string, Set<string>>;
+
+/**
+ * Get the distinct, non-empty keys for a word
+ */
+function phoneticKeys(word: string): string[] {
+  const [primary, secondary] = doubleMetaphone(word);
+  return [...new Set([primary, secondary])].filter(Boolean);
+}
+
+/**
+ * Create a phonetic index over a list of words
+ */
+export function createPhoneticIndex(words: Iterable<string>): PhoneticIndex {
+  const index: PhoneticIndex = new Map();
+  for (const word of words) {
+    addToPhoneticIndex(index, word);
+  }
+  return index;
+}
+
+/**
+ * Add a word to the phonetic index
+ */
+export function addToPhoneticIndex(index: PhoneticIndex, word: string): void {
+  for (const key of phoneticKeys(word)) {
+    let words = index.get(key);
+    if (!words) {
+      words = new Set();
+      index.set(key, words);
+    }
+    words.add(word);
+  }
+}
+
+/**
+ * Remove a word from the phonetic index
+ */
+export function removeFromPhoneticIndex(index: PhoneticIndex, word: string): void {
+  for (const key of phoneticKeys(word)) {
+    const words = index.get(key);
+    if (!words) continue;
+    words.delete(word);
+    if (words.size === 0) index.delete(key);
+  }
+}
+
+/**
+ * Find indexed words that share a phonetic key with a word
+ */
+export function searchPhoneticIndex(index: PhoneticIndex, word: string): string[] {
+  const matches = new Set<string>();
+  for (const key of phoneticKeys(word)) {
+    for (const match of index.get(key) ?? []) {
+      matches.add(match);
+    }
+  }
+  return [...matches];
+}
@@ -0,0 +1,49 @@
+/**
+ * Fountain Spell Assist - Real-Word Error Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { findRealWordCorrection, getNeighbours } from './realword';
+import { extractWords } from './tokenizer';
+
+/** Correction for the word at `index` of a sentence */
+function correct(text: string, index: number): string | null {
+  const words = extractWords(text);
+  const { previous, next } = getNeighbours(text, words, index);
+  return findRealWordCorrection(words[index].word, previous, next);
+}
+
+describe('findRealWordCorrection', () => {
+  it('flags confusables that do not fit their neighbours', () => {
+    expect(correct('I got a letter form my bank', 4)).toBe('from');
+    expect(correct('The manger of the store', 1)).toBe('manager');
+    expect(correct('We where going home', 1)).toBe('were');
+    expect(correct('Please sing in to your account', 1)).toBe('sign');
+  });
+
+  it('leaves words that fit alone', () => {
+    expect(correct('Please fill in the form below', 4)).toBeNull();
+    expect(correct('The baby slept in a manger.', 5)).toBeNull();
+    expect(correct('I know where the file is', 2)).toBeNull();
+    expect(correct('Now that we are here', 0)).toBeNull();
+  });
+
+  it('ignores words without confusables', () => {
+    expect(findRealWordCorrection('table', 'the', 'is')).toBeNull();
+  });
+});
+
+describe('getNeighbours', () => {
+  it('uses sentence markers across punctuation and text edges', () => {
+    const text = 'Done. Form here';
+    expect(getNeighbours(text, extractWords(text), 1)).toEqual({ previous: '<s>', next: 'here' });
+    expect(getNeighbours(text, extractWords(text), 2)).toEqual({ previous: 'form', next: '</s>' });
+  });
+
+  it('breaks the context at skipped paths and URLs', () => {
+    const text = 'Go to /usr/local/bin/node now';
+    const words = extractWords(text);
+    expect(getNeighbours(text, words, words.length - 1)).toEqual({ previous: '<s>', next: '</s>' });
+    expect(correct(text, words.length - 1)).toBeNull();
+  });
+});
@@ -0,0 +1,220 @@
+/**
+ * Fountain Spell Assist - Real-Word Errors
+ *
+ * Catches typos that are valid words ("a letter form my bank", "the manger of
+ * the store") by scoring each confusable word against its neighbours with a
+ * small bundled n-gram model. Runs fully on-device.
+ *
+ * The model only covers the confusable words themselves: for each one it
+ * stores how often it occurs, which words come before and after it (bigrams)
+ * and which before/after pairs surround it (trigrams). The counts are hand
+ * tuned, not taken from a corpus: they are rough relative weights chosen so
+ * that each word's typical phrases win, and there is no script that
+ * regenerates them. When adding or changing a line, add tests for the
+ * phrases it should and shouldn't flag (realword.test.ts).
+ *
+ * Because the counts are guesses, the check is off by default (it can be
+ * turned on on the options page) and its flags carry a low confidence.
+ */
+
+import { normalizeWord } from './tokenizer';
+
+/** Sentence start and end markers used as context */
+const SENTENCE_START = '<s>';
+const SENTENCE_END = '</s>';
+
+/**
+ * Model data, one confusable word per line:
+ *   word count | previous word counts | next word counts | previous~next counts
+ */
+const MODEL_DATA = `
+from 900 | away 40, come 30, comes 25, came 25, far 15, different 20, apart 12, made 10, taken 8, derived 6, email 6, message 6, letter 4, it 12, me 8, them 8, data 6, read 6, loaded 5, imported 5 | the 250, a 60, my 25, your 20, our 20, his 15, her 12, home 15, scratch 10, time 8, now 10, there 8, here 8, them 6, me 5, source 6, disk 4, memory 4, ${SENTENCE_END} 2 | away~the 15, come~the 12, far~the 8, different~the 8, apart~the 4, letter~my 3, email~my 3, away~home 6, it~scratch 4, data~the 6, read~the 5
+form 80 | a 25, the 30, this 10, fill 4, online 5, contact 6, application 5, order 4, registration 4, its 4, human 3, written 3, another 3, any 3, login 4, short 3 | of 40, is 8, and 6, to 6, below 5, fields 6, data 4, submit 3, that 4, field 3, validation 3, on 3, ${SENTENCE_END} 8 | a~of 12, the~of 10, the~below 4, this~is 3, contact~below 2, the~on 3, the~and 2, the~${SENTENCE_END} 4
+manager 120 | the 40, a 20, project 15, product 12, general 8, my 10, your 6, our 6, package 8, engineering 6, account 5, hiring 5, office 4, store 3, team 4, password 3 | of 20, and 10, is 8, will 6, to 6, for 5, said 4, who 4, at 3, ${SENTENCE_END} 8 | the~of 12, the~said 3, project~will 2, a~who 3, the~is 3, my~${SENTENCE_END} 2
+manger 3 | a 2, the 1, in 1 | ${SENTENCE_END} 2, in 1 | a~${SENTENCE_END} 2, a~in 1
+lose 60 | to 20, not 6, will 6, you 5, we 4, might 3, could 3, never 3, would 3, don't 4 | the 12, your 8, weight 6, track 6, data 5, their 4, it 4, money 3, focus 3, my 3, our 3 | to~the 6, to~weight 4, will~your 3, to~track 4, not~your 2, might~data 2
+loose 20 | a 5, the 3, break 4, cut 3, let 4, come 3, set 2, too 2, very 1, few 2 | ${SENTENCE_END} 6, end 3, ends 4, coupling 3, fit 2, and 2 | break~${SENTENCE_END} 3, a~end 2, let~${SENTENCE_END} 2, few~ends 2
+quite 70 | is 15, was 12, not 12, be 5, it's 4, are 4, were 3 | a 15, good 6, well 5, the 4, right 4, simple 4, sure 4, different 4, often 3, easy 3, fast 2 | is~a 5, not~sure 4, was~a 4, is~simple 2, not~the 2, was~sure 2
+quiet 20 | a 4, the 4, very 4, be 3, is 3, was 3, keep 3, stay 2, and 2, so 2 | ${SENTENCE_END} 6, and 3, place 3, room 3, time 2, hours 2, mode 2 | very~${SENTENCE_END} 2, be~${SENTENCE_END} 2, a~place 2, keep~${SENTENCE_END} 2, a~room 1
+affect 30 | to 5, not 6, will 6, can 4, may 3, that 3, might 2, could 2, doesn't 3 | the 10, your 4, how 3, our 3, performance 3, other 2, users 2 | not~the 3, will~the 3, can~performance 1, may~users 1
+effect 40 | the 12, an 6, no 6, side 6, in 6, take 4, into 3, this 3, any 3, cause 2, net 2 | on 15, of 8, ${SENTENCE_END} 6, is 3, and 3, when 2 | the~of 4, an~on 4, side~${SENTENCE_END} 3, no~on 3, into~${SENTENCE_END} 2, take~when 1
+accept 30 | to 6, will 4, we 4, not 3, i 3, please 3, cannot 2, and 2 | the 8, a 3, this 3, your 3, cookies 3, terms 2, payments 2, it 2 | to~the 3, please~the 2, will~payments 1, we~your 1
+except 40 | ${SENTENCE_START} 4, all 5, everything 4, everyone 3, anything 2, and 3, day 2 | for 12, the 5, when 5, that 4, in 3, as 2 | all~for 3, everything~the 2, ${SENTENCE_START}~for 2, anything~when 1
+advice 30 | of 4, some 4, good 4, for 3, your 3, any 3, the 3, legal 3, medical 2, expert 2, career 2 | on 8, from 4, ${SENTENCE_END} 6, is 2, and 2, for 2 | some~on 2, for~${SENTENCE_END} 2, good~${SENTENCE_END} 2, the~of 1
+advise 15 | to 3, would 3, we 3, i 2, please 2, strongly 2 | you 4, the 3, them 2, against 3, on 2, caution 1 | would~you 2, we~against 1, to~the 1, strongly~against 1
+breath 15 | a 4, deep 4, of 3, my 2, your 2, his 2, hold 2, take 1, short 1 | ${SENTENCE_END} 5, of 3, and 2, away 1 | deep~${SENTENCE_END} 2, a~of 2, take~${SENTENCE_END} 1
+breathe 10 | to 3, can't 2, and 2, can 1, help 1 | ${SENTENCE_END} 3, in 2, new 2, life 2, easier 1 | to~${SENTENCE_END} 1, can~easier 1, to~life 1
+desert 15 | the 6, a 3, in 2, sahara 1, island 1 | ${SENTENCE_END} 4, and 2, island 2, sun 1 | the~${SENTENCE_END} 3, a~island 1
+dessert 12 | for 4, the 2, a 2, and 2, of 1 | ${SENTENCE_END} 4, menu 2, and 2, recipes 1, spoon 1 | for~${SENTENCE_END} 3, the~menu 1
+weather 40 | the 12, bad 4, good 3, cold 3, warm 2, of 2, nice 2 | is 5, forecast 6, ${SENTENCE_END} 8, conditions 4, and 3, report 2, data 2 | the~forecast 3, the~is 3, the~${SENTENCE_END} 3, bad~${SENTENCE_END} 2
+whether 70 | ${SENTENCE_START} 6, know 8, decide 6, check 8, determine 5, see 4, sure 3, ask 3, about 3, unclear 2 | or 15, the 12, it 10, to 8, you 8, we 5, they 4, this 4 | check~the 4, know~or 2, decide~to 4, see~it 2, determine~the 3, unclear~the 1
+peace 30 | and 6, of 6, at 4, in 4, world 3, the 3, inner 2 | of 8, and 6, ${SENTENCE_END} 6, with 3, talks 3, process 2 | of~${SENTENCE_END} 3, at~with 2, and~${SENTENCE_END} 2, in~${SENTENCE_END} 2
+piece 50 | a 25, one 5, this 4, each 3, every 3, last 2, that 2, final 2, missing 2 | of 30, ${SENTENCE_END} 5, by 3, together 2, is 2 | a~of 18, one~of 3, each~of 2, missing~${SENTENCE_END} 1, final~of 1
+trial 40 | a 8, free 10, the 6, clinical 5, your 4, on 3, jury 2 | period 8, and 3, ${SENTENCE_END} 6, version 5, of 3, run 2 | free~period 4, free~${SENTENCE_END} 3, a~run 1, the~version 2, clinical~of 1
+trail 15 | the 4, a 3, audit 4, hiking 2, paper 2 | of 4, ${SENTENCE_END} 4, and 2, head 1, run 1 | audit~${SENTENCE_END} 2, the~of 2, paper~${SENTENCE_END} 1
+casual 20 | a 4, the 2, more 2, very 2, business 2 | ${SENTENCE_END} 3, users 3, conversation 2, dress 2, look 2, game 2 | business~${SENTENCE_END} 1, a~conversation 2, more~look 1
+causal 6 | a 2, the 1, no 1 | relationship 3, link 2, effect 1, inference 1 | a~relationship 2, no~link 1
+were 400 | they 60, we 50, you 40, there 30, that 20, which 15, who 15, if 10, and 8, it 4 | not 30, able 20, the 15, going 12, a 10, in 10, already 6, never 6 | they~not 10, we~able 8, we~going 6, there~no 4, you~right 3, if~a 2
+where 300 | ${SENTENCE_START} 30, from 8, and 10, know 10, is 20, case 6, place 5, anywhere 2, here 2, see 3 | the 60, you 30, it 25, we 20, is 20, to 15, they 10, i 8 | know~the 4, is~the 6, ${SENTENCE_START}~is 10, ${SENTENCE_START}~are 6, case~the 3, see~it 2
+now 300 | right 30, is 15, and 15, for 10, by 6, until 8, just 8, from 10, are 8, it's 6 | ${SENTENCE_END} 30, and 10, the 10, that 10, on 8, available 8, we 6, i 4 | right~${SENTENCE_END} 10, for~${SENTENCE_END} 6, until~${SENTENCE_END} 4, is~available 4, from~on 5
+know 300 | i 70, you 40, to 30, we 25, don't 30, let 15, didn't 8, they 10, will 5 | that 30, what 25, how 20, if 15, the 12, about 12, ${SENTENCE_END} 15, why 8, where 8, when 6 | i~that 10, don't~what 6, let~if 5, to~how 6, you~what 5, i~${SENTENCE_END} 4
+hear 50 | to 12, i 8, can 6, you 4, we 5, didn't 3, could 3 | from 12, you 6, that 6, the 5, about 5, it 4 | to~from 5, to~about 3, can~you 3, i~you 2, didn't~the 1
+here 200 | ${SENTENCE_START} 10, is 20, are 12, come 10, click 10, be 6, out 4, over 4, right 6, from 6, in 5, it 4 | ${SENTENCE_END} 40, is 20, are 10, to 10, and 8, for 6, in 5 | click~${SENTENCE_END} 6, ${SENTENCE_START}~is 12, come~${SENTENCE_END} 4, right~${SENTENCE_END} 3
+week 80 | this 20, next 15, last 15, a 12, per 6, the 6, each 4, every 4, one 4 | ${SENTENCE_END} 20, and 5, of 5, ago 4, to 3, for 3 | this~${SENTENCE_END} 8, next~${SENTENCE_END} 6, last~${SENTENCE_END} 5, a~ago 2, per~${SENTENCE_END} 2
+weak 15 | a 4, too 3, very 2, is 2, the 2, and 1 | password 3, ${SENTENCE_END} 3, signal 2, point 2, link 1, references 1 | a~password 2, too~${SENTENCE_END} 1, the~point 1, very~${SENTENCE_END} 1
+whole 50 | the 30, a 8, on 3, as 4 | thing 8, team 4, lot 5, new 3, ${SENTENCE_END} 3, world 3, day 3, file 2 | the~thing 6, a~lot 4, the~team 3, as~${SENTENCE_END} 3, the~file 2
+hole 12 | a 5, the 3, black 2, rabbit 1, security 2 | in 5, ${SENTENCE_END} 3, and 1 | a~in 3, black~${SENTENCE_END} 1, security~in 1
+through 200 | go 20, went 10, going 10, read 6, all 6, way 4, and 5, it 4, walk 6, pass 4 | the 70, a 15, this 8, it 8, our 5, an 4, your 4 | go~the 10, walk~the 3, read~the 3, went~a 3, all~the 2
+threw 10 | he 2, she 2, they 1, it 1, and 1, someone 1 | an 3, away 2, the 2, it 1, up 1 | it~away 1, he~the 1, someone~an 1
+sign 60 | to 10, please 6, a 6, the 4, you 3, and 3, digital 2 | in 20, up 15, out 5, of 4, the 4, ${SENTENCE_END} 2 | to~in 5, please~in 4, to~up 4, a~of 3, please~up 2
+sing 10 | to 3, can 2, and 1, i 1, we 1, will 1 | a 3, along 2, the 2, ${SENTENCE_END} 2, in 1 | to~a 1, and~along 1, can~${SENTENCE_END} 1
+united 25 | the 15, a 3, and 2 | states 15, kingdom 5, nations 3, ${SENTENCE_END} 1 | the~states 10, the~kingdom 3, the~nations 2
+untied 2 | came 1, was 1 | ${SENTENCE_END} 1, and 1 | came~${SENTENCE_END} 1
+perfect 40 | a 10, the 5, is 4, not 4, be 3, pixel 2, practice 2 | for 8, ${SENTENCE_END} 8, example 4, fit 3, and 2, match 2 | a~example 3, is~for 2, a~fit 2, practice~${SENTENCE_END} 2
+prefect 2 | the 1, a 1, head 1 | of 1, ${SENTENCE_END} 1 | the~of 1
+below 50 | see 10, shown 6, listed 4, fall 3, drop 2, the 4, is 4, just 3 | ${SENTENCE_END} 15, the 8, to 5, for 4, and 3, is 3 | see~${SENTENCE_END} 6, shown~${SENTENCE_END} 3, fall~the 2, is~${SENTENCE_END} 2
+bellow 1 | a 1 | ${SENTENCE_END} 1 | a~${SENTENCE_END} 1
+bear 20 | a 4, the 3, to 2, can't 2, polar 2 | with 6, in 5, ${SENTENCE_END} 3, market 2, the 1 | please~with 2, ${SENTENCE_START}~with 3, to~in 2, a~market 1, polar~${SENTENCE_END} 1
+bare 6 | the 3, with 1, a 1 | minimum 3, hands 1, metal 2, ${SENTENCE_END} 1 | the~minimum 3, with~hands 1
+`;
+
+/** Words that are easily typed for one another */
+const CONFUSION_SETS: string[][] = [
+  ['from', 'form'], ['manager', 'manger'], ['lose', 'loose'], ['quite', 'quiet'],
+  ['affect', 'effect'], ['accept', 'except'], ['advice', 'advise'], ['breath', 'breathe'],
+  ['desert', 'dessert'], ['weather', 'whether'], ['peace', 'piece'], ['trial', 'trail'],
+  ['casual', 'causal'], ['were', 'where'], ['now', 'know'], ['hear', 'here'],
+  ['week', 'weak'], ['whole', 'hole'], ['through', 'threw'], ['sign', 'sing'],
+  ['united', 'untied'], ['perfect', 'prefect'], ['below', 'bellow'], ['bear', 'bare'],
+];
+
+/** Counts for one confusable word */
+interface WordModel {
+  count: number;
+  previous: Map<string, number>;
+  next: Map<string, number>;
+  surrounding: Map<string, number>;
+}
+
+/** Added to every count, so unseen contexts are unlikely but possible */
+const SMOOTHING = 0.5;
+
+/** How many times likelier the confusable must be before the word is flagged */
+const MIN_LIKELIHOOD_RATIO = 10;
+
+/**
+ * Parse "word 12, other 3" into a count map
+ */
+function parseCounts(field: string): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const entry of field.split(',')) {
+    const [context, count] = entry.trim().split(' ');
+    if (context) counts.set(context, Number(count));
+  }
+  return counts;
+}
+
+/**
+ * Parse the bundled model data
+ */
+function parseModel(data: string): Map<string, WordModel> {
+  const model = new Map<string, WordModel>();
+  for (const line of data.trim().split('\n')) {
+    const [head, previous, next, surrounding] = line.split('|');
+    const [word, count] = head.trim().split(' ');
+    model.set(word, {
+      count: Number(count),
+      previous: parseCounts(previous),
+      next: parseCounts(next),
+      surrounding: parseCounts(surrounding),
+    });
+  }
+  return model;
+}
+
+const MODEL = parseModel(MODEL_DATA);
+
+/** Confusables of each word */
+const CONFUSABLES = new Map<string, string[]>();
+for (const set of CONFUSION_SETS) {
+  for (const word of set) {
+    CONFUSABLES.set(word, set.filter((other) => other !== word));
+  }
+}
+
+/**
+ * Get the context key for a previous/next word pair
+ */
+function surroundingKey(previous: string, next: string): string {
+  return `${previous}~${next}`;
+}
+
+/**
+ * Check whether the model has seen a word in this context at all
+ */
+function hasEvidence(model: WordModel, previous: string, next: string): boolean {
+  return model.previous.has(previous) || model.next.has(next) ||
+    model.surrounding.has(surroundingKey(previous, next));
+}
+
+/**
+ * Score how well a word fits between two neighbours
+ * count(previous word) * count(word next) / count(word) follows the bigram
+ * probabilities of entering and leaving the word; a seen trigram multiplies it.
+ */
+function scoreInContext(model: WordModel, previous: string, next: string): number {
+  const before = (model.previous.get(previous) ?? 0) + SMOOTHING;
+  const after = (model.next.get(next) ?? 0) + SMOOTHING;
+  const around = model.surrounding.get(surroundingKey(previous, next)) ?? 0;
+  return ((before * after) / (model.count + SMOOTHING)) * (1 + around);
+}
+
+/**
+ * Find a confusable word that fits the context much better, if any
+ * `previous` and `next` are the lowercased neighbours, or sentence markers.
+ */
+export function findRealWordCorrection(word: string, previous: string, next: string): string | null {
+  const lowerWord = word.toLowerCase();
+  const confusables = CONFUSABLES.get(lowerWord);
+  const model = MODEL.get(lowerWord);
+  if (!confusables || !model) return null;
+
+  const candidates = confusables
+    .map((candidate) => ({ candidate, model: MODEL.get(candidate)! }))
+    .filter(({ model: other }) => other && hasEvidence(other, previous, next));
+  if (candidates.length === 0) return null;
+
+  let best: string | null = null;
+  let bestScore = scoreInContext(model, previous, next) * MIN_LIKELIHOOD_RATIO;
+  for (const { candidate, model: other } of candidates) {
+    const candidateScore = scoreInContext(other, previous, next);
+    if (candidateScore >= bestScore) {
+      best = candidate;
+      bestScore = candidateScore;
+    }
+  }
+  return best;
+}
+
+/**
+ * Get the context of a word: its lowercased neighbours, with sentence
+ * markers where anything but spaces separates them (punctuation, a skipped
+ * path or URL) or at the text boundary
+ */
+export function getNeighbours(
+  text: string,
+  words: Array<{ word: string; start: number; end: number }>,
+  index: number
+): { previous: string; next: string } {
+  const before = words[index - 1];
+  const after = words[index + 1];
+  const current = words[index];
+  // An abbreviation's own period ("etc.") may end a sentence too
+  const isSeparated = (from: number, to: number) => text[from - 1] === '.' || /[^ \t]/.test(text.slice(from, to));
+  const contextWord = (token: { word: string }) => normalizeWord(token.word).toLowerCase();
+
+  return {
+    previous: before && !isSeparated(before.end, current.start) ? contextWord(before) : SENTENCE_START,
+    next: after && !isSeparated(current.end, after.start) ? contextWord(after) : SENTENCE_END,
+  };
+}
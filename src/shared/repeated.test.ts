@@ -0,0 +1,69 @@
+/**
+ * Fountain Spell Assist - Repeated Word Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { findRepeatedWords } from './repeated';
+
+describe('findRepeatedWords', () => {
+  it('finds a doubled word with its fix', () => {
+    expect(findRepeatedWords('Fixed the the crash')).toEqual([
+      {
+        word: 'the the',
+        startIndex: 6,
+        endIndex: 13,
+        suggestions: ['the'],
+        category: 'grammar',
+        ruleId: 'repeated-word',
+        severity: 'warning',
+        confidence: 0.95,
+        explanation: '"the" is repeated',
+      },
+    ]);
+  });
+
+  it('finds repeats across line breaks and case', () => {
+    const result = findRepeatedWords('Update the\nThe parser');
+    expect(result).toHaveLength(1);
+    expect(result[0]).toMatchObject({ word: 'the\nThe', startIndex: 7, suggestions: ['the'] });
+  });
+
+  it('reports a longer run once', () => {
+    expect(findRepeatedWords('Add a a a test')).toEqual([
+      {
+        word: 'a a a',
+        startIndex: 4,
+        endIndex: 9,
+        suggestions: ['a'],
+        category: 'grammar',
+        ruleId: 'repeated-word',
+        severity: 'warning',
+        confidence: 0.95,
+        explanation: '"a" is repeated',
+      },
+    ]);
+  });
+
+  it('allows legitimate repeats', () => {
+    expect(findRepeatedWords('She had had enough')).toHaveLength(0);
+    expect(findRepeatedWords('He said that that was fine')).toHaveLength(0);
+  });
+
+  it('ignores repeats split by punctuation', () => {
+    expect(findRepeatedWords('No, no. Go, go!')).toHaveLength(0);
+    expect(findRepeatedWords('the end. The next')).toHaveLength(0);
+  });
+
+  it('ignores repeats across paragraphs', () => {
+    expect(findRepeatedWords('Setup\n\nSetup takes a minute')).toHaveLength(0);
+    expect(findRepeatedWords('Setup\n  \n  setup takes a minute')).toHaveLength(0);
+  });
+
+  it('ignores repeats after an abbreviation that ends a sentence', () => {
+    expect(findRepeatedWords('Bring pens, paper, etc. Etc. is short for et cetera')).toHaveLength(0);
+  });
+
+  it('ignores repeats inside code', () => {
+    expect(findRepeatedWords('Run `echo echo` now')).toHaveLength(0);
+  });
+});
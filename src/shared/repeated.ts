@@ -0,0 +1,63 @@
+/**
+ * Fountain Spell Assist - Repeated Words
+ *
+ * Finds doubled words ("the the"), including repeats split across a line
+ * break. The fix keeps the first word and removes the duplicate. Repeats that
+ * are correct English ("had had", "that that") are left alone, and words
+ * separated by punctuation ("no, no", "etc. Etc.") or a blank line (a heading
+ * followed by a paragraph starting with the same word) never count as a repeat.
+ */
+
+import { Issue } from './types';
+import { extractWords } from './tokenizer';
+
+/** Words that are often correctly written twice in a row */
+const LEGITIMATE_REPEATS = new Set([
+  'had', 'that', 'is', 'do', 'bye', 'ha', 'haha', 'no', 'so', 'very', 'blah', 'knock',
+  'there', 'well', 'now', 'my', 'tut', 'chop', 'night', 'yeah', 'really', 'far',
+]);
+
+/** Whitespace within a paragraph: at most one line break */
+const WORD_GAP = /^(?=\s)[^\S\n]*\n?[^\S\n]*$/;
+
+/**
+ * Find runs of the same word repeated with only whitespace between
+ * Each run is one issue covering all its words, fixed by the first word.
+ */
+export function findRepeatedWords(text: string): Issue[] {
+  const words = extractWords(text);
+  const repeats: Issue[] = [];
+
+  for (let i = 0; i < words.length; i++) {
+    const first = words[i];
+    const lower = first.word.toLowerCase();
+    if (LEGITIMATE_REPEATS.has(lower)) continue;
+
+    // Extend the run while the next word is the same
+    let last = i;
+    while (
+      last + 1 < words.length &&
+      words[last + 1].word.toLowerCase() === lower &&
+      !words[last].word.endsWith('.') &&
+      WORD_GAP.test(text.slice(words[last].end, words[last + 1].start))
+    ) {
+      last++;
+    }
+    if (last === i) continue;
+
+    repeats.push({
+      word: text.slice(first.start, words[last].end),
+      startIndex: first.start,
+      endIndex: words[last].end,
+      suggestions: [first.word],
+      category: 'grammar',
+      ruleId: 'repeated-word',
+      severity: 'warning',
+      confidence: 0.95,
+      explanation: `"${first.word}" is repeated`,
+    });
+    i = last;
+  }
+
+  return repeats;
+}
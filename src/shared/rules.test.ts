@@ -0,0 +1,91 @@
+/**
+ * Fountain Spell Assist - Token Rule Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { correctOrdinal, isAcceptedToken } from './rules';
+import { DEFAULT_TOKEN_RULES } from './types';
+
+describe('correctOrdinal', () => {
+  it('gives the right suffix for a number', () => {
+    expect(correctOrdinal('22th')).toBe('22nd');
+    expect(correctOrdinal('11st')).toBe('11th');
+    expect(correctOrdinal('21st')).toBe('21st');
+    expect(correctOrdinal('3TH')).toBe('3RD');
+  });
+
+  it('ignores words that are not ordinals', () => {
+    expect(correctOrdinal('3aples')).toBeNull();
+    expect(correctOrdinal('10kg')).toBeNull();
+  });
+});
+
+describe('isAcceptedToken', () => {
+  it('accepts acronyms up to the configured length', () => {
+    expect(isAcceptedToken('NASA')).toBe(true);
+    expect(isAcceptedToken('SPACEX')).toBe(false);
+    expect(isAcceptedToken('SPACEX', { maxAcronymLength: 6 })).toBe(true);
+    expect(isAcceptedToken('API', { maxAcronymLength: 0 })).toBe(false);
+  });
+
+  it('does not accept other words', () => {
+    expect(isAcceptedToken('Nasa')).toBe(false);
+    expect(isAcceptedToken('hello')).toBe(false);
+  });
+
+  it('accepts letters mixed with digits', () => {
+    for (const word of ['HIPAA2024', 'B2B', 'mp3', 'file1', 'x86']) {
+      expect(isAcceptedToken(word)).toBe(true);
+      expect(isAcceptedToken(word, { alphanumerics: false })).toBe(false);
+    }
+  });
+
+  it('does not read a number stuck to a word as a code', () => {
+    expect(isAcceptedToken('3aples')).toBe(false);
+  });
+
+  it('accepts ordinals with the right suffix', () => {
+    for (const word of ['1st', '2nd', '3rd', '4th', '11th', '12th', '13th', '21st', '113th']) {
+      expect(isAcceptedToken(word)).toBe(true);
+    }
+    expect(isAcceptedToken('2st')).toBe(false);
+    expect(isAcceptedToken('11st')).toBe(false);
+    expect(isAcceptedToken('21st', { ordinals: false })).toBe(false);
+  });
+
+  it('accepts numbers with units', () => {
+    for (const word of ['10kg', '5ms', '2.4GHz', '16px', '3pm', '100MB', '2x']) {
+      expect(isAcceptedToken(word)).toBe(true);
+    }
+    expect(isAcceptedToken('10kg', { units: false })).toBe(false);
+    expect(isAcceptedToken('10kgs')).toBe(false);
+  });
+
+  it('accepts version strings', () => {
+    for (const word of ['v2', 'v2.3.1', '1.0.0-beta', '1.0.0-rc.2', '2.1+build5']) {
+      expect(isAcceptedToken(word)).toBe(true);
+    }
+    expect(isAcceptedToken('v2.3.1', { versions: false })).toBe(false);
+  });
+
+  it('accepts hex numbers, hashes, UUIDs and ticket IDs', () => {
+    for (const word of ['0xFF', '3f2a9c1', '550e8400-e29b-41d4-a716-446655440000', 'JIRA-142']) {
+      expect(isAcceptedToken(word)).toBe(true);
+      expect(isAcceptedToken(word, { identifiers: false, alphanumerics: false })).toBe(false);
+    }
+    expect(isAcceptedToken('tpyo-142')).toBe(false);
+  });
+
+  it('accepts a token if any enabled rule does', () => {
+    // "0xFF" is also letters with digits, "4K" also a number with a unit
+    expect(isAcceptedToken('0xFF', { identifiers: false })).toBe(true);
+    expect(isAcceptedToken('4K', { alphanumerics: false })).toBe(true);
+    expect(isAcceptedToken('4K', { alphanumerics: false, units: false })).toBe(false);
+  });
+
+  it('uses the default for rules missing from saved settings', () => {
+    expect(isAcceptedToken('21st', {})).toBe(true);
+    expect(isAcceptedToken('NASA', { units: false })).toBe(true);
+    expect(DEFAULT_TOKEN_RULES.maxAcronymLength).toBe(5);
+  });
+});
@@ -0,0 +1,101 @@
+/**
+ * Fountain Spell Assist - Token Rules
+ *
+ * Decides which tokens that aren't dictionary words are accepted as written:
+ * acronyms, codes mixing letters and digits, ordinals, measurements, version
+ * strings and identifiers. Each rule can be turned off on the options page.
+ * A word with digits that no rule accepts has its letters spell checked
+ * instead ("3aples" -> "aples"), except ordinals, which are flagged whole
+ * ("22th" -> "22nd").
+ */
+
+import { TokenRules, DEFAULT_TOKEN_RULES } from './types';
+
+/** Units written straight after a number, lowercase */
+const UNITS = new Set([
+  // Length, mass and volume
+  'nm', 'µm', 'um', 'mm', 'cm', 'm', 'km', 'in', 'ft', 'yd', 'mi',
+  'mg', 'g', 'kg', 't', 'oz', 'lb', 'lbs', 'ml', 'cl', 'dl', 'l', 'gal',
+  // Time and frequency
+  'ns', 'µs', 'us', 'ms', 's', 'sec', 'secs', 'min', 'mins', 'h', 'hr', 'hrs',
+  'd', 'wk', 'wks', 'mo', 'yr', 'yrs', 'am', 'pm', 'hz', 'khz', 'mhz', 'ghz',
+  // Data
+  'b', 'kb', 'mb', 'gb', 'tb', 'pb', 'kib', 'mib', 'gib', 'tib', 'bps', 'kbps',
+  'mbps', 'gbps',
+  // Screens and motion
+  'px', 'pt', 'em', 'rem', 'vh', 'vw', 'dpi', 'ppi', 'fps', 'rpm', 'mph', 'kph', 'kmh',
+  // Energy and electricity
+  'v', 'mv', 'kv', 'a', 'ma', 'mah', 'w', 'kw', 'mw', 'kwh', 'wh', 'j', 'kj', 'cal', 'kcal',
+  // Temperature, multipliers and magnitudes
+  'c', 'f', 'x', 'k', 'bn',
+]);
+
+/** A number followed by a unit ("10kg", "2.5GHz") */
+const MEASUREMENT = /^\d+(?:[.,]\d+)?(\p{L}+)$/u;
+
+/** An ordinal number ("1st", "22nd", "113th") */
+const ORDINAL = /^(\d+)(st|nd|rd|th)$/i;
+
+/** A version string ("v2", "v2.3.1", "1.0.0-beta.2", "2.1+build5") */
+const VERSION = /^(?:v\d+(?:\.\d+)*|\d+(?:\.\d+)+)(?:[-+][\p{L}\p{N}]+(?:[.-][\p{L}\p{N}]+)*)?$/iu;
+
+/** Hex numbers, hashes and colors, UUIDs, and ticket IDs ("0xFF", "3f2a9c1", "JIRA-142") */
+const IDENTIFIERS = [
+  /^0x[0-9a-f]+$/i,
+  /^[0-9a-f]{6,}$/i,
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i,
+  /^\p{Lu}[\p{Lu}\p{N}]*-\d+$/u,
+];
+
+/**
+ * Get the suffix an ordinal number takes ("st" for 21, "th" for 11)
+ */
+function ordinalSuffix(value: number): string {
+  if (value % 100 >= 11 && value % 100 <= 13) return 'th';
+  return ['th', 'st', 'nd', 'rd'][value % 10] ?? 'th';
+}
+
+/**
+ * Get the correctly suffixed form of an ordinal number ("22th" -> "22nd")
+ * Returns null if the word isn't a number with an ordinal suffix.
+ */
+export function correctOrdinal(word: string): string | null {
+  const ordinal = ORDINAL.exec(word);
+  if (!ordinal) return null;
+
+  const [, digits, suffix] = ordinal;
+  const correct = ordinalSuffix(Number(digits));
+  return digits + (suffix === suffix.toUpperCase() ? correct.toUpperCase() : correct);
+}
+
+/**
+ * Check if a token that isn't a dictionary word is accepted by the rules
+ * Settings saved before a rule existed use its default.
+ */
+export function isAcceptedToken(word: string, rules: Partial<TokenRules> = DEFAULT_TOKEN_RULES): boolean {
+  const { maxAcronymLength, alphanumerics, ordinals, units, versions, identifiers } = {
+    ...DEFAULT_TOKEN_RULES,
+    ...rules,
+  };
+
+  // Acronyms ("NASA", "API")
+  if (/^\p{Lu}+$/u.test(word)) return word.length <= maxAcronymLength;
+
+  // Everything else needs a digit
+  if (!/\p{N}/u.test(word)) return false;
+
+  const ordinal = ORDINAL.exec(word);
+  if (ordinal) return ordinals && ordinal[2].toLowerCase() === ordinalSuffix(Number(ordinal[1]));
+
+  const measurement = MEASUREMENT.exec(word);
+  if (units && measurement && UNITS.has(measurement[1].toLowerCase())) return true;
+
+  if (versions && VERSION.test(word)) return true;
+
+  if (identifiers && IDENTIFIERS.some((pattern) => pattern.test(word))) return true;
+
+  // Codes mixing letters and digits ("B2B", "mp3", "4K"), but not a number
+  // followed by lowercase letters, which is how ordinals, units and typos
+  // stuck to a number look
+  return alphanumerics && /^[\p{L}\p{N}]+$/u.test(word) && !/^\p{N}+\p{Ll}+$/u.test(word);
+}
@@ -6,7 +6,7 @@
  */
 
 import { describe, it, expect } from 'vitest';
-import { matchesDisabledPattern } from './storage';
+import { matchesDisabledPattern, mergeCorrection, mergeDictionaryEntry } from './storage';
 
 describe('matchesDisabledPattern', () => {
   it('matches exact hostname', () => {
@@ -49,3 +49,65 @@ describe('matchesDisabledPattern', () => {
   });
 });
 
+describe('mergeCorrection', () => {
+  it('adds a new correction', () => {
+    const entries = mergeCorrection([], 'Teh', 'The', 100);
+    expect(entries).toEqual([{ misspelling: 'teh', correction: 'the', count: 1, lastUsed: 100 }]);
+  });
+
+  it('counts repeated choices', () => {
+    let entries = mergeCorrection([], 'teh', 'the', 100);
+    entries = mergeCorrection(entries, 'teh', 'the', 200);
+    entries = mergeCorrection(entries, 'teh', 'ten', 300);
+    expect(entries).toEqual([
+      { misspelling: 'teh', correction: 'the', count: 2, lastUsed: 200 },
+      { misspelling: 'teh', correction: 'ten', count: 1, lastUsed: 300 },
+    ]);
+  });
+
+  it('ignores empty and no-op corrections', () => {
+    expect(mergeCorrection([], '', 'the')).toEqual([]);
+    expect(mergeCorrection([], 'Color', 'color')).toEqual([]);
+  });
+
+  it('drops the least recently used entries when full', () => {
+    let entries = mergeCorrection([], 'oldest', 'old', 0);
+    for (let i = 1; i <= 1000; i++) {
+      entries = mergeCorrection(entries, `word${i}`, `fix${i}`, i);
+    }
+    expect(entries).toHaveLength(1000);
+    expect(entries.some((e) => e.misspelling === 'oldest')).toBe(false);
+  });
+});
+
+describe('mergeDictionaryEntry', () => {
+  it('lowercases words that are not case-sensitive', () => {
+    expect(mergeDictionaryEntry([], 'Fountain', false, 1)).toEqual([{ word: 'fountain', addedAt: 1 }]);
+  });
+
+  it('keeps the capitalization of case-sensitive words', () => {
+    expect(mergeDictionaryEntry([], 'GitHub', true, 1)).toEqual([
+      { word: 'GitHub', addedAt: 1, caseSensitive: true },
+    ]);
+  });
+
+  it('leaves existing words alone', () => {
+    const entries = [{ word: 'fountain', addedAt: 1 }];
+    expect(mergeDictionaryEntry(entries, 'FOUNTAIN', false, 2)).toBe(entries);
+  });
+
+  it('updates the case sensitivity of an existing word', () => {
+    const entries = [{ word: 'github', addedAt: 1 }];
+    expect(mergeDictionaryEntry(entries, 'GitHub', true, 2)).toEqual([
+      { word: 'GitHub', addedAt: 1, caseSensitive: true },
+    ]);
+    expect(mergeDictionaryEntry([{ word: 'GitHub', addedAt: 1, caseSensitive: true }], 'GitHub', false, 2))
+      .toEqual([{ word: 'github', addedAt: 1 }]);
+  });
+
+  it('keeps an existing entry when no case sensitivity is given', () => {
+    const entries = [{ word: 'GitHub', addedAt: 1, caseSensitive: true }];
+    expect(mergeDictionaryEntry(entries, 'Github', undefined, 2)).toBe(entries);
+    expect(mergeDictionaryEntry([], 'Github', undefined, 2)).toEqual([{ word: 'github', addedAt: 2 }]);
+  });
+});
@@ -5,18 +5,21 @@
  * - Global settings
  * - Per-site settings
  * - Custom dictionary management
+ * - Learned corrections (chrome.storage.local)
  */
 
 import {
   GlobalSettings,
   SiteSettings,
   DictionaryEntry,
+  CorrectionEntry,
   Statistics,
   STORAGE_KEYS,
   DEFAULT_GLOBAL_SETTINGS,
   DEFAULT_SITE_SETTINGS,
   DEFAULT_STATISTICS,
 } from './types';
+import { normalizeWord } from './tokenizer';
 
 /**
  * Get global settings from storage
@@ -72,31 +75,55 @@ export async function getCustomDictionary(): Promise<DictionaryEntry[]> {
  */
 export async function getCustomDictionaryWords(): Promise<Set<string>> {
   const entries = await getCustomDictionary();
-  return new Set(entries.map((e) => e.word.toLowerCase()));
+  return new Set(entries.map((e) => normalizeWord(e.word).toLowerCase()));
 }
 
 /**
- * Add a word to the custom dictionary
- * Returns true if the word was added, false if it already existed
+ * Add a word to a list of dictionary entries
+ * Case-sensitive words keep their capitalization ("GitHub"); others are
+ * lowercased. Adding a word again with a different case sensitivity updates
+ * its entry; leaving the case sensitivity out keeps the entry as it is (new
+ * words are not case-sensitive). Returns the same array when nothing changed.
  */
-export async function addToDictionary(word: string): Promise<boolean> {
-  const normalizedWord = word.toLowerCase().trim();
-  if (!normalizedWord) return false;
+export function mergeDictionaryEntry(
+  entries: DictionaryEntry[],
+  word: string,
+  caseSensitive?: boolean,
+  now: number = Date.now()
+): DictionaryEntry[] {
+  const trimmed = normalizeWord(word).trim();
+  const normalizedWord = trimmed.toLowerCase();
+  if (!normalizedWord) return entries;
 
-  const entries = await getCustomDictionary();
-  
-  // Check if word already exists
-  if (entries.some((e) => e.word.toLowerCase() === normalizedWord)) {
-    return false;
+  const newEntry: DictionaryEntry = caseSensitive
+    ? { word: trimmed, addedAt: now, caseSensitive: true }
+    : { word: normalizedWord, addedAt: now };
+
+  const index = entries.findIndex((e) => normalizeWord(e.word).toLowerCase() === normalizedWord);
+  if (index === -1) return [...entries, newEntry];
+  if (caseSensitive === undefined) return entries;
+
+  // Check if the word already exists as given
+  const existing = entries[index];
+  if (existing.word === newEntry.word && !!existing.caseSensitive === caseSensitive) {
+    return entries;
   }
 
-  const newEntry: DictionaryEntry = {
-    word: normalizedWord,
-    addedAt: Date.now(),
-  };
+  const updated = [...entries];
+  updated[index] = { ...newEntry, addedAt: existing.addedAt };
+  return updated;
+}
 
-  entries.push(newEntry);
-  await chrome.storage.sync.set({ [STORAGE_KEYS.CUSTOM_DICTIONARY]: entries });
+/**
+ * Add a word to the custom dictionary
+ * Returns true if the word was added or updated, false if it already existed
+ */
+export async function addToDictionary(word: string, caseSensitive?: boolean): Promise<boolean> {
+  const entries = await getCustomDictionary();
+  const updated = mergeDictionaryEntry(entries, word, caseSensitive);
+  if (updated === entries) return false;
+
+  await chrome.storage.sync.set({ [STORAGE_KEYS.CUSTOM_DICTIONARY]: updated });
   return true;
 }
 
@@ -105,10 +132,10 @@ export async function addToDictionary(word: string): Promise<boolean> {
  * Returns true if the word was removed, false if it wasn't found
  */
 export async function removeFromDictionary(word: string): Promise<boolean> {
-  const normalizedWord = word.toLowerCase().trim();
+  const normalizedWord = normalizeWord(word).toLowerCase().trim();
   const entries = await getCustomDictionary();
   
-  const filtered = entries.filter((e) => e.word.toLowerCase() !== normalizedWord);
+  const filtered = entries.filter((e) => normalizeWord(e.word).toLowerCase() !== normalizedWord);
   
   if (filtered.length === entries.length) {
     return false; // Word wasn't in dictionary
@@ -124,13 +151,13 @@ export async function removeFromDictionary(word: string): Promise<boolean> {
  */
 export async function importDictionary(words: string[]): Promise<number> {
   const entries = await getCustomDictionary();
-  const existingWords = new Set(entries.map((e) => e.word.toLowerCase()));
+  const existingWords = new Set(entries.map((e) => normalizeWord(e.word).toLowerCase()));
   
   let addedCount = 0;
   const now = Date.now();
 
   for (const word of words) {
-    const normalized = word.toLowerCase().trim();
+    const normalized = normalizeWord(word).toLowerCase().trim();
     if (normalized && !existingWords.has(normalized)) {
       entries.push({ word: normalized, addedAt: now });
       existingWords.add(normalized);
@@ -160,6 +187,53 @@ export async function clearDictionary(): Promise<void> {
   await chrome.storage.sync.set({ [STORAGE_KEYS.CUSTOM_DICTIONARY]: [] });
 }
 
+/** Maximum number of remembered corrections */
+const MAX_CORRECTION_ENTRIES = 1000;
+
+/**
+ * Get the learned correction history
+ */
+export async function getCorrectionHistory(): Promise<CorrectionEntry[]> {
+  const result = await chrome.storage.local.get(STORAGE_KEYS.CORRECTION_HISTORY);
+  return result[STORAGE_KEYS.CORRECTION_HISTORY] || [];
+}
+
+/**
+ * Add one use of a correction to a history list
+ * Drops the least recently used entries beyond MAX_CORRECTION_ENTRIES.
+ */
+export function mergeCorrection(
+  entries: CorrectionEntry[],
+  misspelling: string,
+  correction: string,
+  now: number = Date.now()
+): CorrectionEntry[] {
+  const normalizedMisspelling = normalizeWord(misspelling).toLowerCase().trim();
+  const normalizedCorrection = normalizeWord(correction).toLowerCase().trim();
+  if (!normalizedMisspelling || !normalizedCorrection || normalizedMisspelling === normalizedCorrection) {
+    return entries;
+  }
+
+  const existing = entries.find(
+    (e) => e.misspelling === normalizedMisspelling && e.correction === normalizedCorrection
+  );
+  const updated = existing
+    ? entries.map((e) => (e === existing ? { ...e, count: e.count + 1, lastUsed: now } : e))
+    : [...entries, { misspelling: normalizedMisspelling, correction: normalizedCorrection, count: 1, lastUsed: now }];
+
+  if (updated.length <= MAX_CORRECTION_ENTRIES) return updated;
+  return [...updated].sort((a, b) => b.lastUsed - a.lastUsed).slice(0, MAX_CORRECTION_ENTRIES);
+}
+
+/**
+ * Remember that a suggestion was picked for a misspelling
+ */
+export async function recordCorrection(misspelling: string, correction: string): Promise<CorrectionEntry[]> {
+  const entries = mergeCorrection(await getCorrectionHistory(), misspelling, correction);
+  await chrome.storage.local.set({ [STORAGE_KEYS.CORRECTION_HISTORY]: entries });
+  return entries;
+}
+
 /**
  * Check if a hostname matches any disabled pattern
  * Patterns support simple wildcards: *.example.com
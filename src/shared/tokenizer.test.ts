@@ -0,0 +1,239 @@
+/**
+ * Fountain Spell Assist - Tokenizer Tests
+ *
+ * Tests for code-aware and Unicode-aware word extraction.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { extractWords, isPathOrFileName, normalizeWord, stripDiacritics, stripPossessive } from './tokenizer';
+
+const words = (text: string) => extractWords(text).map((t) => t.word);
+
+describe('identifiers', () => {
+  it('splits snake_case', () => {
+    expect(words('max_retry_count')).toEqual(['max', 'retry', 'count']);
+  });
+
+  it('keeps kebab-case identifiers whole with their parts', () => {
+    const [token] = extractWords('--dry-run-mode');
+    expect(token.word).toBe('dry-run-mode');
+    expect(token.parts?.map((p) => p.word)).toEqual(['dry', 'run', 'mode']);
+  });
+
+  it('keeps camelCase identifiers whole with their parts', () => {
+    const token = extractWords('call getUserProfile now')[1];
+    expect(token.word).toBe('getUserProfile');
+    expect(token.parts?.map((p) => p.word)).toEqual(['get', 'User', 'Profile']);
+  });
+
+  it('gives parts their offsets in the text', () => {
+    const parts = extractWords('a parseJSONResponse')[1].parts;
+    expect(parts).toEqual([
+      { word: 'parse', start: 2, end: 7 },
+      { word: 'JSON', start: 7, end: 11 },
+      { word: 'Response', start: 11, end: 19 },
+    ]);
+  });
+
+  it('drops single-letter parts', () => {
+    const [token] = extractWords('getX');
+    expect(token.parts?.map((p) => p.word)).toEqual(['get']);
+  });
+
+  it('does not split ordinary capitalized words', () => {
+    expect(extractWords('Hello WORLD')[0].parts).toBeUndefined();
+    expect(extractWords('Hello WORLD')[1].parts).toBeUndefined();
+  });
+});
+
+describe('hyphenated compounds', () => {
+  it('keeps compounds whole with a part per word', () => {
+    const token = extractWords('a state-of-the-art design')[1];
+    expect(token.word).toBe('state-of-the-art');
+    expect(token.parts).toEqual([
+      { word: 'state', start: 2, end: 7 },
+      { word: 'of', start: 8, end: 10 },
+      { word: 'the', start: 11, end: 14 },
+      { word: 'art', start: 15, end: 18 },
+    ]);
+  });
+
+  it('drops single-letter parts', () => {
+    expect(extractWords('an x-ray')[1].parts?.map((p) => p.word)).toEqual(['ray']);
+    expect(words('x-y')).toEqual([]);
+  });
+
+  it('gives camelCase parts their own parts', () => {
+    const [token] = extractWords('use-getUser');
+    expect(token.parts?.[1].parts?.map((p) => p.word)).toEqual(['get', 'User']);
+  });
+
+  it('does not join words across dashes and spaces', () => {
+    expect(words('well -- known')).toEqual(['well', 'known']);
+    expect(words('pre- and post-war')).toEqual(['pre', 'and', 'post-war']);
+  });
+});
+
+describe('abbreviations', () => {
+  it('reads abbreviations with periods as one token', () => {
+    expect(words('Use e.g. or i.e. here, etc.')).toEqual(['Use', 'e.g.', 'or', 'i.e.', 'here', 'etc.']);
+    expect(extractWords('Ask Ph.D. students')[1]).toEqual({ word: 'Ph.D.', start: 4, end: 9 });
+  });
+
+  it('accepts a missing final period after inner ones', () => {
+    expect(words('the U.S.A')).toEqual(['the', 'U.S.A']);
+  });
+
+  it('splits dotted words that are not abbreviations', () => {
+    expect(words('the end.Then')).toEqual(['the', 'end', 'Then']);
+  });
+
+  it('ends the abbreviation before a hyphen', () => {
+    expect(words('U.S.-based')).toEqual(['U.S.', 'based']);
+  });
+});
+
+describe('words with digits', () => {
+  it('keeps them whole with their letter runs', () => {
+    const [version, weight] = extractWords('v2.3.1-beta 10kg');
+    expect(version.word).toBe('v2.3.1-beta');
+    expect(version.parts?.map((p) => p.word)).toEqual(['beta']);
+    expect(weight).toEqual({ word: '10kg', start: 12, end: 16, parts: [{ word: 'kg', start: 14, end: 16 }] });
+  });
+
+  it('leaves out numbers and words without checkable letters', () => {
+    expect(words('In 2024 we shipped 3.14 and v2')).toEqual(['In', 'we', 'shipped', 'and']);
+  });
+
+  it('gives each word of a hyphenated code its own token', () => {
+    const [token] = extractWords('21st-century');
+    expect(token.parts?.map((p) => p.word)).toEqual(['21st', 'century']);
+    expect(token.parts?.[0].parts?.map((p) => p.word)).toEqual(['st']);
+  });
+
+  it('does not end at sentence punctuation', () => {
+    expect(words('Update to 21st-century mp3.')).toEqual(['Update', 'to', '21st-century', 'mp3']);
+  });
+
+  it('leaves paths and snake_case alone', () => {
+    expect(words('see file1.ts')).toEqual(['see']);
+    expect(words('max_retry2_count')).toEqual(['max', 'retry', 'count']);
+  });
+});
+
+describe('stripPossessive', () => {
+  it('strips "\'s" and a trailing apostrophe after "s"', () => {
+    expect(stripPossessive("John's")).toBe('John');
+    expect(stripPossessive('company’s')).toBe('company');
+    expect(stripPossessive("students'")).toBe('students');
+  });
+
+  it('ignores other words', () => {
+    expect(stripPossessive('cats')).toBeNull();
+    expect(stripPossessive("don't")).toBeNull();
+    expect(stripPossessive("'s")).toBeNull();
+  });
+});
+
+describe('paths and filenames', () => {
+  it('recognizes paths', () => {
+    expect(isPathOrFileName('/usr/local/bin')).toBe(true);
+    expect(isPathOrFileName('./src')).toBe(true);
+    expect(isPathOrFileName('~/notes')).toBe(true);
+    expect(isPathOrFileName('\\Users\\me')).toBe(true);
+    expect(isPathOrFileName('src/shared/utils')).toBe(true);
+  });
+
+  it('recognizes filenames', () => {
+    expect(isPathOrFileName('README.md')).toBe(true);
+    expect(isPathOrFileName('vite.config.ts')).toBe(true);
+    expect(isPathOrFileName('.gitignore')).toBe(true);
+  });
+
+  it('treats slashed and dotted prose as words', () => {
+    expect(isPathOrFileName('and/or')).toBe(false);
+    expect(isPathOrFileName('end.Next')).toBe(false);
+  });
+
+  it('skips paths and filenames in text', () => {
+    expect(words('Fixed src/shared/dictonary.ts and README.md.')).toEqual(['Fixed', 'and']);
+    expect(words('Moved it to C:\\Users\\dev\\projcts')).toEqual(['Moved', 'it', 'to']);
+    expect(words('yes/no')).toEqual(['yes', 'no']);
+  });
+});
+
+describe('ignored ranges', () => {
+  it('skips URLs', () => {
+    expect(words('See https://example.com/releaseNotes for more')).toEqual(['See', 'for', 'more']);
+    expect(words('Open www.exampel.org/docz today')).toEqual(['Open', 'today']);
+    expect(words('Hosted at exampel.io/api/v2.')).toEqual(['Hosted', 'at']);
+  });
+
+  it('skips email addresses', () => {
+    expect(words('Mail jdoe.smith@exampel.com please')).toEqual(['Mail', 'please']);
+  });
+
+  it('skips mentions and hashtags', () => {
+    expect(words('Thanks @jdoe and @team-qa in #releng-chat')).toEqual(['Thanks', 'and', 'in']);
+  });
+
+  it('skips emoji shortcodes', () => {
+    expect(words('Shipped :tada: :+1:')).toEqual(['Shipped']);
+  });
+
+  it('skips inline and fenced code', () => {
+    expect(words('Run `npm run biuld` first')).toEqual(['Run', 'first']);
+    expect(words('Try:\n```\nconst x = fooo();\n```\nDone')).toEqual(['Try', 'Done']);
+  });
+
+  it('keeps offsets of the remaining words', () => {
+    expect(extractWords('@jdoe hello')).toEqual([{ word: 'hello', start: 6, end: 11 }]);
+  });
+
+  it('leaves prose punctuation alone', () => {
+    expect(words('Email me at noon #1 priority')).toEqual(['Email', 'me', 'at', 'noon', 'priority']);
+  });
+});
+
+describe('Unicode text', () => {
+  it('keeps accented words whole', () => {
+    expect(words('A naïve café résumé')).toEqual(['A', 'naïve', 'café', 'résumé']);
+  });
+
+  it('keeps typographic apostrophes inside contractions', () => {
+    expect(words('I don’t know')).toEqual(['I', 'don’t', 'know']);
+    expect(words('It isnʼt')).toEqual(['It', 'isnʼt']);
+  });
+
+  it('leaves quote marks around words out', () => {
+    expect(words('He said ‘hello’ and ’bye’')).toEqual(['He', 'said', 'hello', 'and', 'bye']);
+    expect(words("a 'quoted' word")).toEqual(['a', 'quoted', 'word']);
+    expect(extractWords('‘hi’')).toEqual([{ word: 'hi', start: 1, end: 3 }]);
+  });
+
+  it('keeps the apostrophe of a plural possessive', () => {
+    expect(words('the students’ work')).toEqual(['the', 'students’', 'work']);
+  });
+
+  it('skips words in other scripts', () => {
+    expect(words('Say привет and 你好 or γειά')).toEqual(['Say', 'and', 'or']);
+  });
+
+  it('keeps offsets after accented words', () => {
+    expect(extractWords('déjà vu')).toEqual([
+      { word: 'déjà', start: 0, end: 4 },
+      { word: 'vu', start: 5, end: 7 },
+    ]);
+  });
+});
+
+describe('normalizeWord', () => {
+  it('composes accents and straightens apostrophes', () => {
+    expect(normalizeWord('café')).toBe('café');
+    expect(normalizeWord('Don’t')).toBe("Don't");
+  });
+
+  it('strips diacritics', () => {
+    expect(stripDiacritics('Résumé')).toBe('Resume');
+  });
+});
@@ -0,0 +1,294 @@
+/**
+ * Fountain Spell Assist - Tokenizer
+ *
+ * Splits text into checkable words with their positions. Code-aware:
+ * - File paths and filenames ("src/shared/types.ts", "README.md") are skipped
+ * - snake_case identifiers split into their parts
+ * - camelCase and PascalCase identifiers and hyphenated compounds carry their
+ *   parts, which are checked when the token as a whole is not a known word
+ *   ("getUserProfile", "state-of-the-art")
+ * - Abbreviations with periods ("e.g.", "Ph.D.") are single tokens, and so
+ *   are words with digits ("v2.3.1", "10kg"), which carry their letter runs
+ * - URLs, emails, @mentions, #hashtags, :shortcode: emoji and `inline code`
+ *   are not words at all and are skipped
+ * - Letters are matched by Unicode property, so accented words ("café") stay
+ *   whole and typographic apostrophes ("don’t") join contractions. Quote marks
+ *   around a word ("‘hello’") are not part of it. Words in scripts other than
+ *   Latin are left out rather than split into fragments.
+ */
+
+import { isAbbreviation } from './abbreviations';
+
+/** A word in the text, with its position */
+export interface Token {
+  word: string;
+  start: number;
+  end: number;
+  /** Sub-words of a camelCase identifier or hyphenated compound */
+  parts?: Token[];
+}
+
+/** Extensions that mark a dotted token as a filename rather than two words */
+const FILE_EXTENSIONS = new Set([
+  'c', 'cc', 'cfg', 'cjs', 'conf', 'cpp', 'cs', 'css', 'csv', 'dart', 'doc', 'docx',
+  'env', 'gif', 'go', 'gradle', 'h', 'hpp', 'htm', 'html', 'ini', 'ipynb', 'java',
+  'jpeg', 'jpg', 'js', 'json', 'jsx', 'kt', 'less', 'lock', 'log', 'lua', 'md', 'mjs',
+  'mts', 'php', 'pl', 'png', 'proto', 'ps1', 'py', 'rb', 'rs', 'sass', 'scala', 'scss',
+  'sh', 'sql', 'svelte', 'svg', 'swift', 'toml', 'ts', 'tsx', 'txt', 'vue', 'webp',
+  'xml', 'yaml', 'yml', 'zip',
+]);
+
+/**
+ * Ranges that are never spell checked, in the order they are masked
+ * Code comes first so a URL inside backticks is not matched on its own.
+ */
+const IGNORED_PATTERNS: RegExp[] = [
+  // Fenced and inline code
+  /```[\s\S]*?```|`[^`\n]+`/g,
+  // URLs with a scheme or "www."
+  /\b(?:[a-z][a-z0-9+.-]*:\/\/|www\.)[^\s<>"'`]+/gi,
+  // Email addresses
+  /[\w.+-]+@[\w-]+(?:\.[\w-]+)+/g,
+  // Bare domains ("example.com/docs"); lowercase TLDs only, so "end.Co" stays prose
+  /\b[\w-]+(?:\.[\w-]+)*\.(?:com|org|net|io|dev|app|co|edu|gov|ai)\b(?:\/[^\s<>"'`]*)?/g,
+  // @mentions
+  /(?<![\p{L}\p{N}_@])@[\p{L}\p{N}_][\p{L}\p{M}\p{N}_.-]*/gu,
+  // #hashtags and #channels
+  /(?<![\p{L}\p{N}_#&])#\p{L}[\p{L}\p{M}\p{N}_-]*/gu,
+  // :shortcode: emoji
+  /:[a-z0-9_+-]+:/gi,
+];
+
+/**
+ * Blank out URLs, emails, mentions and other non-word ranges
+ * Characters are replaced by spaces, so word offsets stay the same.
+ */
+function maskIgnoredRanges(text: string): string {
+  let masked = text;
+  for (const pattern of IGNORED_PATTERNS) {
+    masked = masked.replace(pattern, (match) => ' '.repeat(match.length));
+  }
+  return masked;
+}
+
+/** Apostrophes: ASCII, typographic (U+2019) and modifier letter (U+02BC) */
+const APOSTROPHES = /[’ʼ]/g;
+
+/** Runs of characters that can form a word, identifier or path */
+const CHUNK_PATTERN = /[\p{L}\p{M}\p{N}_'’ʼ./\\~-]+/gu;
+
+/** Letter runs within a chunk, joined into compounds by single hyphens; digits, dots, slashes and "_" separate words */
+const WORD_PATTERN = /[\p{L}\p{M}'’ʼ]+(?:-[\p{L}\p{M}'’ʼ]+)*/gu;
+
+/** Words of a hyphenated compound */
+const COMPOUND_PART = /[^-]+/g;
+
+/** Letter runs within a word with digits */
+const LETTER_RUN = /[\p{L}\p{M}'’ʼ]+/gu;
+
+/** Runs of letters and digits, possibly dotted or hyphenated ("v2.3.1", "COVID-19") */
+const ALPHANUMERIC_PATTERN = /(?<![\p{L}\p{M}\p{N}_.'’ʼ/\\-])[\p{L}\p{M}\p{N}]+(?:[.-][\p{L}\p{M}\p{N}]+)*(?![\p{L}\p{M}\p{N}_'’ʼ/\\])/gu;
+
+/** Letters with periods that may be an abbreviation ("e.g.", "Ph.D.", "etc.") */
+const DOTTED_PATTERN = /(?<![\p{L}\p{M}\p{N}_.'’ʼ/\\])(?:[\p{L}\p{M}]+\.)+[\p{L}\p{M}]*(?![\p{N}_/\\])/gu;
+
+/** Possessive endings: "'s" after a word, "'" after a plural in "s" */
+const POSSESSIVE = /^(.+?)['’ʼ]s$|^(.+s)['’ʼ]$/i;
+
+/** camelCase parts: "XMLHttpRequest" -> "XML", "Http", "Request" */
+const CAMEL_CASE_PART = /\p{Lu}+(?!\p{Ll})|\p{Lu}?[\p{Ll}\p{M}'’ʼ]+/gu;
+
+/** Words written entirely in Latin script (plus combining marks and apostrophes) */
+const LATIN_WORD = /^[\p{Script=Latin}\p{M}'’ʼ]+$/u;
+
+/**
+ * Normalize a word the way dictionary entries are stored
+ * Composes accents (NFC) and turns typographic apostrophes into "'".
+ * Case is left alone.
+ */
+export function normalizeWord(word: string): string {
+  return word.normalize('NFC').replace(APOSTROPHES, "'");
+}
+
+/**
+ * Remove accents ("résumé" -> "resume")
+ */
+export function stripDiacritics(word: string): string {
+  return word.normalize('NFD').replace(/\p{M}/gu, '').normalize('NFC');
+}
+
+/**
+ * Get the owner of a possessive ("John's" -> "John", "students'" -> "students")
+ * Returns null if the word doesn't end like a possessive.
+ */
+export function stripPossessive(word: string): string | null {
+  const match = POSSESSIVE.exec(word);
+  return match ? match[1] ?? match[2] : null;
+}
+
+/**
+ * Check if a chunk is a file path or filename
+ * Two-part slashed words like "and/or" still count as prose.
+ */
+export function isPathOrFileName(chunk: string): boolean {
+  // Absolute, relative and home paths ("/usr/bin", "./src", "~/notes", "\\server")
+  if (/^(~|\.{1,2})?[/\\]/.test(chunk)) return true;
+
+  const segments = chunk.split(/[/\\]/).filter(Boolean);
+  const name = segments[segments.length - 1] ?? '';
+
+  // Dotfiles (".gitignore", ".env")
+  if (segments.length === 1 && /^\.[A-Za-z][\w.-]*$/.test(name)) return true;
+
+  // Filenames with a known extension ("index.ts", "src/app.config.json")
+  const dot = name.lastIndexOf('.');
+  if (dot > 0 && FILE_EXTENSIONS.has(name.slice(dot + 1).toLowerCase())) return true;
+
+  return segments.length >= 3;
+}
+
+/**
+ * Split an identifier into camelCase parts, with their offsets
+ */
+function splitCamelCase(word: string, start: number): Token[] {
+  const parts: Token[] = [];
+  let match;
+
+  CAMEL_CASE_PART.lastIndex = 0;
+  while ((match = CAMEL_CASE_PART.exec(word)) !== null) {
+    parts.push({
+      word: match[0],
+      start: start + match.index,
+      end: start + match.index + match[0].length,
+    });
+  }
+
+  return parts;
+}
+
+/**
+ * Trim quote marks from the edges of a word ("‘hello’" -> "hello"), keeping
+ * the apostrophe of a plural possessive ("the students’")
+ */
+function trimQuotes(word: string, start: number): { word: string; start: number } {
+  const leading = /^['’ʼ]*/.exec(word)![0].length;
+  const core = word.slice(leading).replace(/['’ʼ]+$/, '');
+  const trailing = word.length - leading - core.length;
+  const kept = trailing > 0 && /s$/i.test(core) ? word.slice(leading, leading + core.length + 1) : core;
+  return { word: kept, start: start + leading };
+}
+
+/**
+ * Check if a letter run is worth checking
+ */
+function isCheckable(word: string): boolean {
+  // Skip single letters (except I and a)
+  if (word.length === 1 && word.toLowerCase() !== 'i' && word.toLowerCase() !== 'a') {
+    return false;
+  }
+
+  // Skip if it's just apostrophes
+  return word.replace(/['’ʼ]/g, '').length > 0;
+}
+
+/**
+ * Make a token for a single word, with its camelCase parts
+ */
+function createWordToken(word: string, start: number): Token {
+  const token: Token = { word, start, end: start + word.length };
+
+  const parts = splitCamelCase(word, start);
+  if (parts.length > 1) token.parts = parts.filter((part) => isCheckable(part.word));
+
+  return token;
+}
+
+/**
+ * Make a token for a word with digits ("10kg", "v2.3.1"), with its letter runs
+ * as parts
+ * Returns null if no part is worth checking.
+ */
+function createCodeToken(word: string, start: number): Token | null {
+  const parts: Token[] = [];
+
+  for (const match of word.matchAll(LETTER_RUN)) {
+    if (isCheckable(match[0])) parts.push(createWordToken(match[0], start + match.index!));
+  }
+  if (parts.length === 0) return null;
+
+  return { word, start, end: start + word.length, parts };
+}
+
+/**
+ * Make a token for a hyphenated compound, with a part per word
+ * Returns null if no part is worth checking.
+ */
+function createCompoundToken(word: string, start: number): Token | null {
+  const parts: Token[] = [];
+
+  for (const match of word.matchAll(COMPOUND_PART)) {
+    const part = match[0];
+    const partStart = start + match.index!;
+    if (/\p{N}/u.test(part)) {
+      const code = createCodeToken(part, partStart);
+      if (code) parts.push(code);
+    } else if (isCheckable(part)) {
+      parts.push(createWordToken(part, partStart));
+    }
+  }
+  if (parts.length === 0) return null;
+
+  return { word, start, end: start + word.length, parts };
+}
+
+/**
+ * Extract words from text, preserving their positions
+ */
+export function extractWords(text: string): Token[] {
+  const words: Token[] = [];
+  let chunk;
+
+  // Abbreviations and words with digits become tokens of their own and are
+  // blanked out, so their letters aren't read as separate words
+  const wholeTokens: Token[] = [];
+  const masked = maskIgnoredRanges(text)
+    .replace(DOTTED_PATTERN, (match: string, offset: number) => {
+      if (!isAbbreviation(match)) return match;
+      wholeTokens.push({ word: match, start: offset, end: offset + match.length });
+      return ' '.repeat(match.length);
+    })
+    .replace(ALPHANUMERIC_PATTERN, (match: string, offset: number) => {
+      if (!/\p{N}/u.test(match) || isPathOrFileName(match)) return match;
+      if (LATIN_WORD.test(match.replace(/[\p{N}.-]/gu, ''))) {
+        const token = match.includes('-') ? createCompoundToken(match, offset) : createCodeToken(match, offset);
+        if (token) wholeTokens.push(token);
+      }
+      return ' '.repeat(match.length);
+    });
+
+  CHUNK_PATTERN.lastIndex = 0;
+  while ((chunk = CHUNK_PATTERN.exec(masked)) !== null) {
+    // Sentence punctuation is not part of a path ("see index.ts.")
+    const trimmed = chunk[0].replace(/[.-]+$/, '');
+    if (isPathOrFileName(trimmed)) continue;
+
+    let match;
+    WORD_PATTERN.lastIndex = 0;
+    while ((match = WORD_PATTERN.exec(chunk[0])) !== null) {
+      const { word, start } = trimQuotes(match[0], chunk.index + match.index);
+
+      // Scripts without a dictionary are left unflagged
+      if (!LATIN_WORD.test(word.replace(/-/g, ''))) continue;
+
+      if (word.includes('-')) {
+        const compound = createCompoundToken(word, start);
+        if (compound) words.push(compound);
+      } else if (isCheckable(word)) {
+        words.push(createWordToken(word, start));
+      }
+    }
+  }
+
+  if (wholeTokens.length === 0) return words;
+  return [...words, ...wholeTokens].sort((a, b) => a.start - b.start);
+}
@@ -16,8 +16,40 @@ export interface GlobalSettings {
   disabledPatterns: string[];
   /** Enable auto-correct (automatically replace on space/enter) */
   autoCorrect: boolean;
+  /** User additions to the auto-correct table (typo -> word) */
+  autoCorrections: Record<string, string>;
   /** Enable basic grammar checking */
   grammarCheck: boolean;
+  /** Flag correctly spelled words that don't fit their context ("form" for "from") */
+  realWordCheck: boolean;
+  /** Jargon word packs accepted alongside the base dictionary */
+  domainDictionaries: DomainDictionary[];
+  /** Keyboard the user types on, for ranking adjacent-key typo fixes */
+  keyboardLayout: KeyboardLayout;
+  /** Which tokens that aren't words are accepted as written */
+  tokenRules: TokenRules;
+}
+
+/** Optional word packs for professional jargon (see domains.ts) */
+export type DomainDictionary = 'medical' | 'legal' | 'software' | 'finance';
+
+/** Supported keyboard layouts (see layouts.ts) */
+export type KeyboardLayout = 'qwerty' | 'qwertz' | 'azerty' | 'dvorak' | 'colemak';
+
+/** Acceptance rules for acronyms, numbers and codes (see rules.ts) */
+export interface TokenRules {
+  /** Longest all-caps word accepted as an acronym; 0 checks them all */
+  maxAcronymLength: number;
+  /** Letters mixed with digits ("HIPAA2024", "B2B", "file1") */
+  alphanumerics: boolean;
+  /** Ordinal numbers ("21st", "3rd") */
+  ordinals: boolean;
+  /** Numbers with a unit ("10kg", "5ms", "2.4GHz") */
+  units: boolean;
+  /** Version strings ("v2.3.1", "1.0.0-beta") */
+  versions: boolean;
+  /** Hex numbers, hashes, UUIDs and ticket IDs ("0xFF", "3f2a9c1", "JIRA-142") */
+  identifiers: boolean;
 }
 
 /** Per-site settings stored in chrome.storage.sync */
@@ -32,11 +64,31 @@ export interface DictionaryEntry {
   word: string;
   /** Timestamp when word was added */
   addedAt: number;
+  /** Match capitalization exactly, so "Github" is flagged for "GitHub" */
+  caseSensitive?: boolean;
 }
 
-/** Represents a detected misspelling */
-export interface Misspelling {
-  /** The misspelled word */
+/** A suggestion the user picked for a misspelling */
+export interface CorrectionEntry {
+  /** The misspelled word (lowercase) */
+  misspelling: string;
+  /** The suggestion that replaced it (lowercase) */
+  correction: string;
+  /** Number of times this correction was chosen */
+  count: number;
+  /** Timestamp of the last time it was chosen */
+  lastUsed: number;
+}
+
+/** Area of writing an issue is about */
+export type IssueCategory = 'spelling' | 'grammar' | 'style' | 'punctuation';
+
+/** How much an issue matters: errors are mistakes, warnings likely ones, info a matter of taste */
+export type IssueSeverity = 'error' | 'warning' | 'info';
+
+/** A problem found in the text by any of the checks */
+export interface Issue {
+  /** The flagged text: a word, or several ("with out", "the the") */
   word: string;
   /** Start index in the text */
   startIndex: number;
@@ -44,6 +96,16 @@ export interface Misspelling {
   endIndex: number;
   /** Suggested corrections */
   suggestions: string[];
+  /** Area of writing the issue is about */
+  category: IssueCategory;
+  /** The rule that raised it ("unknown-word", "repeated-word") */
+  ruleId: string;
+  /** How much the issue matters */
+  severity: IssueSeverity;
+  /** How likely the issue is real, from 0 to 1 */
+  confidence: number;
+  /** Why the text was flagged, shown in the suggestion menu */
+  explanation: string;
 }
 
 /** Message types for communication between extension components */
@@ -60,7 +122,9 @@ export type MessageType =
   | 'GET_STATISTICS'
   | 'RESET_STATISTICS'
   | 'CHECK_SPELLING'
-  | 'SETTINGS_CHANGED';
+  | 'RECORD_CORRECTION'
+  | 'SETTINGS_CHANGED'
+  | 'CORRECTIONS_CHANGED';
 
 /** Base message structure */
 export interface BaseMessage {
@@ -95,6 +159,7 @@ export interface SetGlobalSettingsMessage extends BaseMessage {
 export interface AddToDictionaryMessage extends BaseMessage {
   type: 'ADD_TO_DICTIONARY';
   word: string;
+  caseSensitive?: boolean;
 }
 
 /** Remove word from dictionary request */
@@ -129,6 +194,13 @@ export interface ResetStatisticsMessage extends BaseMessage {
   type: 'RESET_STATISTICS';
 }
 
+/** Record a suggestion the user picked */
+export interface RecordCorrectionMessage extends BaseMessage {
+  type: 'RECORD_CORRECTION';
+  misspelling: string;
+  correction: string;
+}
+
 /** Settings changed notification (broadcast to content scripts) */
 export interface SettingsChangedMessage extends BaseMessage {
   type: 'SETTINGS_CHANGED';
@@ -136,6 +208,11 @@ export interface SettingsChangedMessage extends BaseMessage {
   siteSettings?: SiteSettings;
 }
 
+/** Correction history changed notification (broadcast to content scripts) */
+export interface CorrectionsChangedMessage extends BaseMessage {
+  type: 'CORRECTIONS_CHANGED';
+}
+
 /** Union of all message types */
 export type ExtensionMessage =
   | GetSiteSettingsMessage
@@ -149,7 +226,9 @@ export type ExtensionMessage =
   | ExportDictionaryMessage
   | GetStatisticsMessage
   | ResetStatisticsMessage
-  | SettingsChangedMessage;
+  | RecordCorrectionMessage
+  | SettingsChangedMessage
+  | CorrectionsChangedMessage;
 
 /** Response wrapper */
 export interface MessageResponse<T = unknown> {
@@ -178,6 +257,8 @@ export const STORAGE_KEYS = {
   SITE_SETTINGS_PREFIX: 'site:',
   CUSTOM_DICTIONARY: 'customDictionary',
   STATISTICS: 'statistics',
+  /** Kept in chrome.storage.local: it grows with use and stays on this device */
+  CORRECTION_HISTORY: 'correctionHistory',
 } as const;
 
 /** Default statistics */
@@ -189,6 +270,16 @@ export const DEFAULT_STATISTICS: Statistics = {
   lastReset: Date.now(),
 };
 
+/** Default token rules: everything on, acronyms up to five letters */
+export const DEFAULT_TOKEN_RULES: TokenRules = {
+  maxAcronymLength: 5,
+  alphanumerics: true,
+  ordinals: true,
+  units: true,
+  versions: true,
+  identifiers: true,
+};
+
 /** Default global settings */
 export const DEFAULT_GLOBAL_SETTINGS: GlobalSettings = {
   enabled: true,
@@ -196,7 +287,12 @@ export const DEFAULT_GLOBAL_SETTINGS: GlobalSettings = {
   language: 'en-US',
   disabledPatterns: [],
   autoCorrect: false,
+  autoCorrections: {},
   grammarCheck: false,
+  realWordCheck: false,
+  domainDictionaries: [],
+  keyboardLayout: 'qwerty',
+  tokenRules: DEFAULT_TOKEN_RULES,
 };
 
 /** Default site settings */
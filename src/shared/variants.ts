@@ -0,0 +1,182 @@
+/**
+ * Fountain Spell Assist - Regional English Variants
+ *
+ * Maps American and British spellings ("color"/"colour", "organize"/"organise",
+ * "center"/"centre", ...) so the checker can accept the spelling preferred by
+ * the selected locale and flag the other one, suggesting its counterpart.
+ *
+ * Supported locales: en-US, en-GB, en-CA, en-AU
+ */
+
+/** Spelling families that differ between American and British English */
+type VariantCategory = 'our' | 'ise' | 'yse' | 're' | 'ence' | 'll' | 'misc';
+
+/** Which side of each family a locale prefers */
+type Preference = 'us' | 'gb';
+
+const LOCALE_PREFERENCES: Record<string, Record<VariantCategory, Preference>> = {
+  'en-US': { our: 'us', ise: 'us', yse: 'us', re: 'us', ence: 'us', ll: 'us', misc: 'us' },
+  'en-GB': { our: 'gb', ise: 'gb', yse: 'gb', re: 'gb', ence: 'gb', ll: 'gb', misc: 'gb' },
+  'en-AU': { our: 'gb', ise: 'gb', yse: 'gb', re: 'gb', ence: 'gb', ll: 'gb', misc: 'gb' },
+  // Canadian English keeps British -our/-re but American -ize/-yze
+  'en-CA': { our: 'gb', ise: 'us', yse: 'us', re: 'gb', ence: 'gb', ll: 'gb', misc: 'gb' },
+};
+
+/** color/colour, honor/honour, ... */
+const OUR_STEMS = [
+  'arb', 'ard', 'behavi', 'cand', 'clam', 'col', 'demean', 'endeav', 'fav', 'flav',
+  'harb', 'hon', 'hum', 'lab', 'neighb', 'parl', 'rig', 'rum', 'savi', 'sav',
+  'splend', 'tum', 'vap', 'vig',
+];
+const OUR_SUFFIXES = ['', 's', 'ed', 'ing'];
+
+/** organize/organise, realize/realise, ... */
+const ISE_STEMS = [
+  'apolog', 'author', 'capital', 'categor', 'central', 'character', 'civil',
+  'critic', 'custom', 'emphas', 'final', 'general', 'ideal', 'initial', 'legal',
+  'maxim', 'memor', 'minim', 'modern', 'normal', 'optim', 'organ', 'priorit',
+  'real', 'recogn', 'social', 'special', 'standard', 'summar', 'symbol',
+  'synchron', 'util', 'visual',
+];
+const ISE_SUFFIXES: Array<[string, string]> = [
+  ['ize', 'ise'], ['ized', 'ised'], ['izes', 'ises'], ['izing', 'ising'],
+  ['ization', 'isation'], ['izations', 'isations'], ['izer', 'iser'], ['izers', 'isers'],
+];
+
+/** analyze/analyse, ... ("analyses" is also a US plural, so it is left out) */
+const YSE_STEMS = ['anal', 'catal', 'paral'];
+const YSE_SUFFIXES: Array<[string, string]> = [
+  ['yze', 'yse'], ['yzed', 'ysed'], ['yzing', 'ysing'],
+];
+
+/** center/centre, ... ("meter" is a valid device name in British English) */
+const RE_STEMS = ['cent', 'theat', 'fib', 'calib', 'somb', 'spect', 'meag', 'lust', 'lit'];
+const RE_SUFFIXES: Array<[string, string]> = [
+  ['er', 're'], ['ers', 'res'], ['ered', 'red'], ['ering', 'ring'],
+];
+
+/** Irregular pairs, grouped by family */
+const IRREGULAR_PAIRS: Array<[string, string, VariantCategory]> = [
+  ['favorite', 'favourite', 'our'],
+  ['favorites', 'favourites', 'our'],
+  ['favorable', 'favourable', 'our'],
+  ['honorable', 'honourable', 'our'],
+  ['colorful', 'colourful', 'our'],
+  ['behavioral', 'behavioural', 'our'],
+  ['neighborhood', 'neighbourhood', 'our'],
+  ['neighborhoods', 'neighbourhoods', 'our'],
+  ['defense', 'defence', 'ence'],
+  ['offense', 'offence', 'ence'],
+  ['pretense', 'pretence', 'ence'],
+  ['traveled', 'travelled', 'll'],
+  ['traveling', 'travelling', 'll'],
+  ['traveler', 'traveller', 'll'],
+  ['travelers', 'travellers', 'll'],
+  ['canceled', 'cancelled', 'll'],
+  ['canceling', 'cancelling', 'll'],
+  ['labeled', 'labelled', 'll'],
+  ['labeling', 'labelling', 'll'],
+  ['modeled', 'modelled', 'll'],
+  ['modeling', 'modelling', 'll'],
+  ['fueled', 'fuelled', 'll'],
+  ['fueling', 'fuelling', 'll'],
+  ['counselor', 'counsellor', 'll'],
+  ['enroll', 'enrol', 'll'],
+  ['fulfill', 'fulfil', 'll'],
+  ['installment', 'instalment', 'll'],
+  ['jewelry', 'jewellery', 'll'],
+  ['gray', 'grey', 'misc'],
+  ['catalog', 'catalogue', 'misc'],
+  ['catalogs', 'catalogues', 'misc'],
+  ['aluminum', 'aluminium', 'misc'],
+  ['plow', 'plough', 'misc'],
+  ['pajamas', 'pyjamas', 'misc'],
+  ['mold', 'mould', 'misc'],
+  ['skeptic', 'sceptic', 'misc'],
+  ['skeptical', 'sceptical', 'misc'],
+  ['artifact', 'artefact', 'misc'],
+  ['artifacts', 'artefacts', 'misc'],
+  ['cozy', 'cosy', 'misc'],
+];
+
+interface VariantPair {
+  us: string;
+  gb: string;
+  category: VariantCategory;
+}
+
+/**
+ * Build the full American/British pair list from stems and suffixes
+ */
+function buildVariantPairs(): VariantPair[] {
+  const pairs: VariantPair[] = [];
+
+  for (const stem of OUR_STEMS) {
+    for (const suffix of OUR_SUFFIXES) {
+      pairs.push({ us: `${stem}or${suffix}`, gb: `${stem}our${suffix}`, category: 'our' });
+    }
+  }
+
+  const suffixFamilies: Array<[string[], Array<[string, string]>, VariantCategory]> = [
+    [ISE_STEMS, ISE_SUFFIXES, 'ise'],
+    [YSE_STEMS, YSE_SUFFIXES, 'yse'],
+    [RE_STEMS, RE_SUFFIXES, 're'],
+  ];
+  for (const [stems, suffixes, category] of suffixFamilies) {
+    for (const stem of stems) {
+      for (const [us, gb] of suffixes) {
+        pairs.push({ us: stem + us, gb: stem + gb, category });
+      }
+    }
+  }
+
+  for (const [us, gb, category] of IRREGULAR_PAIRS) {
+    pairs.push({ us, gb, category });
+  }
+
+  return pairs;
+}
+
+/** Per-locale lookup tables, built lazily */
+const localeTables = new Map<string, { preferred: Set<string>; corrections: Map<string, string> }>();
+
+/**
+ * Get (or build) the lookup tables for a locale
+ */
+function getLocaleTable(language: string) {
+  let table = localeTables.get(language);
+  if (table) return table;
+
+  const preferences = LOCALE_PREFERENCES[language];
+  if (!preferences) return null;
+
+  table = { preferred: new Set(), corrections: new Map() };
+  for (const pair of buildVariantPairs()) {
+    const [preferred, other] = preferences[pair.category] === 'us'
+      ? [pair.us, pair.gb]
+      : [pair.gb, pair.us];
+    table.preferred.add(preferred);
+    table.corrections.set(other, preferred);
+  }
+
+  localeTables.set(language, table);
+  return table;
+}
+
+/**
+ * Get the locale's spelling for a word written in another region's spelling
+ * Returns null if the word is not a regional variant (or is already preferred).
+ */
+export function getRegionalCorrection(word: string, language: string): string | null {
+  const table = getLocaleTable(language);
+  if (!table) return null;
+  return table.corrections.get(word.toLowerCase()) ?? null;
+}
+
+/**
+ * Get all regional spellings preferred by a locale
+ * Empty for languages without regional variant handling.
+ */
+export function getRegionalSpellings(language: string): ReadonlySet<string> {
+  return getLocaleTable(language)?.preferred ?? new Set();
+}
@@ -0,0 +1,55 @@
+/**
+ * Fountain Spell Assist - Word Pack Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parseWordList, encodeWordPack, decodeWordPack } from './wordpack';
+import { getBuiltInDictionary } from './dictionary';
+
+describe('parseWordList', () => {
+  it('splits on whitespace and skips comments', () => {
+    const text = '# Greetings\nhello  world\n\n  # indented comment\ndon\'t café\n';
+    expect(parseWordList(text)).toEqual(['hello', 'world', "don't", 'café']);
+  });
+});
+
+describe('encodeWordPack / decodeWordPack', () => {
+  it('round-trips a word list', () => {
+    const words = ['tap', 'taps', 'top', 'tops', 'a', "don't", 'café', 'naïve', '𝔘nicode'];
+    expect(decodeWordPack(encodeWordPack(words))).toEqual(new Set(words));
+  });
+
+  it('ignores duplicates, order and empty words', () => {
+    const packed = encodeWordPack(['b', 'a', '', 'b', 'ab']);
+    expect(decodeWordPack(packed)).toEqual(new Set(['a', 'ab', 'b']));
+    expect(encodeWordPack(['ab', 'a', 'b'])).toEqual(packed);
+  });
+
+  it('handles an empty list', () => {
+    expect(decodeWordPack(encodeWordPack([])).size).toBe(0);
+  });
+
+  it('shares common endings', () => {
+    // "-ing" after each stem collapses into one branch
+    const stems = ['walk', 'talk', 'jump', 'sing', 'read'];
+    const plain = encodeWordPack(stems);
+    const inflected = encodeWordPack([...stems, ...stems.map((stem) => `${stem}ing`)]);
+    expect(inflected.length - plain.length).toBeLessThan(20);
+  });
+
+  it('packs the built-in dictionary smaller than its plain text', () => {
+    const words = getBuiltInDictionary();
+    const packed = encodeWordPack(words);
+    expect(decodeWordPack(packed)).toEqual(words);
+    expect(packed.length).toBeLessThan([...words].join('\n').length * 0.75);
+  });
+
+  it('rejects data that is not a word pack', () => {
+    expect(() => decodeWordPack(new TextEncoder().encode('hello world'))).toThrow('Not a word pack');
+    const packed = encodeWordPack(['hello', 'world']);
+    expect(() => decodeWordPack(packed.slice(0, packed.length - 2))).toThrow('Truncated word pack');
+    const future = packed.slice();
+    future[4] = 99;
+    expect(() => decodeWordPack(future)).toThrow('Unsupported word pack version 99');
+  });
+});
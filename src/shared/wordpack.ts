@@ -0,0 +1,221 @@
+/**
+ * Fountain Spell Assist - Word Packs
+ *
+ * Word lists ship as compact binary assets instead of source literals, so they
+ * stay out of content.js, which is injected into every page. At build time a
+ * plain word list (src/wordlists/<name>.txt) is compiled into a DAWG: a trie
+ * whose identical branches are stored once, so shared endings like "-ing" and
+ * "-tion" cost nothing after their first use. The content script fetches the
+ * pack once via chrome.runtime.getURL and unpacks it into a word set.
+ *
+ * Binary format, with every number an unsigned LEB128 varint:
+ * - The magic bytes "FSAW" and a version byte
+ * - The node count, then each node in order (node 0 is the root):
+ *   (edge count << 1) | final flag, then per edge a UTF-16 code unit and the
+ *   target node's offset from this node (zigzag-encoded, as it may be negative)
+ */
+
+/** Leading bytes of every word pack ("FSAW") */
+const MAGIC = [0x46, 0x53, 0x41, 0x57];
+
+/** Format version, bumped on incompatible changes */
+const VERSION = 1;
+
+/**
+ * Parse a word list source file
+ * Words are separated by whitespace; lines starting with # are comments.
+ */
+export function parseWordList(text: string): string[] {
+  return text
+    .split('\n')
+    .filter((line) => !line.trimStart().startsWith('#'))
+    .flatMap((line) => line.split(/\s+/))
+    .filter((word) => word.length > 0);
+}
+
+/** A DAWG node while the graph is being built */
+interface BuildNode {
+  final: boolean;
+  edges: Map<string, BuildNode>;
+  /** Set once the node is registered as the canonical copy of its branch */
+  id: number;
+}
+
+function createNode(): BuildNode {
+  return { final: false, edges: new Map(), id: -1 };
+}
+
+/**
+ * Build a minimal DAWG from words in sorted order
+ * Incremental construction (Daciuk et al.): once a word is added, the branch of
+ * the previous word beyond their shared prefix can no longer change, so it is
+ * merged with an identical registered branch or registered itself.
+ */
+function buildDawg(sortedWords: string[]): BuildNode {
+  const root = createNode();
+  const register = new Map<string, BuildNode>();
+  const unchecked: { parent: BuildNode; char: string; child: BuildNode }[] = [];
+
+  const minimize = (downTo: number) => {
+    while (unchecked.length > downTo) {
+      const { parent, char, child } = unchecked.pop()!;
+      let signature = child.final ? '1' : '0';
+      for (const [edgeChar, target] of child.edges) signature += `|${edgeChar}${target.id}`;
+
+      const existing = register.get(signature);
+      if (existing) {
+        parent.edges.set(char, existing);
+      } else {
+        child.id = register.size;
+        register.set(signature, child);
+      }
+    }
+  };
+
+  let previous = '';
+  for (const word of sortedWords) {
+    let prefix = 0;
+    while (prefix < word.length && prefix < previous.length && word[prefix] === previous[prefix]) {
+      prefix++;
+    }
+    minimize(prefix);
+
+    let node = unchecked.length > 0 ? unchecked[unchecked.length - 1].child : root;
+    for (let i = prefix; i < word.length; i++) {
+      const char = word[i];
+      const child = createNode();
+      node.edges.set(char, child);
+      unchecked.push({ parent: node, char, child });
+      node = child;
+    }
+    node.final = true;
+    previous = word;
+  }
+  minimize(0);
+
+  return root;
+}
+
+/** Append an unsigned LEB128 varint */
+function writeVarint(bytes: number[], value: number): void {
+  while (value >= 0x80) {
+    bytes.push((value & 0x7f) | 0x80);
+    value >>>= 7;
+  }
+  bytes.push(value);
+}
+
+/** Map a signed offset to an unsigned number: 0, -1, 1, -2, ... -> 0, 1, 2, 3, ... */
+function zigzag(offset: number): number {
+  return offset < 0 ? -2 * offset - 1 : 2 * offset;
+}
+
+/** Reverse zigzag */
+function unzigzag(value: number): number {
+  return value % 2 === 1 ? -(value + 1) / 2 : value / 2;
+}
+
+/**
+ * Compile words into a binary word pack
+ */
+export function encodeWordPack(words: Iterable<string>): Uint8Array {
+  // Code unit order, which is the order the graph walks edges in
+  const sorted = [...new Set(words)].filter((word) => word.length > 0).sort();
+  const root = buildDawg(sorted);
+
+  // Number nodes depth-first from the root, so a node's first unshared child
+  // usually comes right after it and its target offset fits in one byte
+  const order: BuildNode[] = [];
+  const index = new Map<BuildNode, number>();
+  const stack = [root];
+  while (stack.length > 0) {
+    const node = stack.pop()!;
+    if (index.has(node)) continue;
+    index.set(node, order.length);
+    order.push(node);
+    stack.push(...[...node.edges.values()].reverse());
+  }
+
+  const bytes = [...MAGIC, VERSION];
+  writeVarint(bytes, order.length);
+  order.forEach((node, nodeIndex) => {
+    writeVarint(bytes, (node.edges.size << 1) | (node.final ? 1 : 0));
+    for (const [char, target] of node.edges) {
+      writeVarint(bytes, char.charCodeAt(0));
+      writeVarint(bytes, zigzag(index.get(target)! - nodeIndex));
+    }
+  });
+
+  return Uint8Array.from(bytes);
+}
+
+/**
+ * Unpack a binary word pack into its words
+ * Throws if the bytes are not a word pack this version can read.
+ */
+export function decodeWordPack(bytes: Uint8Array): Set<string> {
+  let offset = 0;
+  const readVarint = (): number => {
+    let value = 0;
+    let shift = 0;
+    let byte: number;
+    do {
+      if (offset >= bytes.length) throw new Error('Truncated word pack');
+      byte = bytes[offset++];
+      value += (byte & 0x7f) * 2 ** shift;
+      shift += 7;
+    } while (byte & 0x80);
+    return value;
+  };
+
+  if (!MAGIC.every((byte, i) => bytes[i] === byte)) throw new Error('Not a word pack');
+  if (bytes[MAGIC.length] !== VERSION) throw new Error(`Unsupported word pack version ${bytes[MAGIC.length]}`);
+  offset = MAGIC.length + 1;
+
+  // Flatten the graph: node i's edges are edgeChars/edgeTargets[edgeStart[i]..edgeStart[i + 1]]
+  const nodeCount = readVarint();
+  const final = new Uint8Array(nodeCount);
+  const edgeStart = new Uint32Array(nodeCount + 1);
+  const edgeChars: string[] = [];
+  const edgeTargets: number[] = [];
+  for (let node = 0; node < nodeCount; node++) {
+    const header = readVarint();
+    final[node] = header & 1;
+    edgeStart[node] = edgeChars.length;
+    for (let edge = header >>> 1; edge > 0; edge--) {
+      edgeChars.push(String.fromCharCode(readVarint()));
+      const target = node + unzigzag(readVarint());
+      if (target < 0 || target >= nodeCount) throw new Error('Corrupt word pack');
+      edgeTargets.push(target);
+    }
+  }
+  edgeStart[nodeCount] = edgeChars.length;
+
+  // Walk every path from the root; each final node ends a word
+  const words = new Set<string>();
+  const stack: [number, string][] = nodeCount > 0 ? [[0, '']] : [];
+  while (stack.length > 0) {
+    const [node, prefix] = stack.pop()!;
+    if (final[node]) words.add(prefix);
+    for (let edge = edgeStart[node]; edge < edgeStart[node + 1]; edge++) {
+      stack.push([edgeTargets[edge], prefix + edgeChars[edge]]);
+    }
+  }
+
+  return words;
+}
+
+/**
+ * Load a bundled word pack (dictionaries/<name>.dawg)
+ * Returns null if the pack is missing from this build or can't be read.
+ */
+export async function loadWordPack(name: string): Promise<Set<string> | null> {
+  try {
+    const response = await fetch(chrome.runtime.getURL(`dictionaries/${name}.dawg`));
+    if (!response.ok) return null;
+    return decodeWordPack(new Uint8Array(await response.arrayBuffer()));
+  } catch (error) {
+    console.error(`FSA: Error loading ${name} word pack:`, error);
+    return null;
+  }
+}
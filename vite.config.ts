@@ -1,8 +1,9 @@
 import { defineConfig } from 'vite';
 import react from '@vitejs/plugin-react';
 import { resolve } from 'path';
-import { copyFileSync, mkdirSync, existsSync, readdirSync } from 'fs';
+import { copyFileSync, mkdirSync, existsSync, readdirSync, readFileSync, writeFileSync } from 'fs';
 import inlineContentScript from './vite-plugin-inline-content.js';
+import { parseWordList, encodeWordPack } from './src/shared/wordpack';
 
 /**
  * Vite configuration for Fountain Spell Assist Chrome Extension
@@ -14,6 +15,7 @@ import inlineContentScript from './vite-plugin-inline-content.js';
  * - dist/popup/            - Popup React app
  * - dist/options/          - Options React app
  * - dist/icons/            - Extension icons
+ * - dist/dictionaries/     - Hunspell language packs (.aff/.dic) and word packs (.dawg)
  * - dist/manifest.json     - Extension manifest
  */
 
@@ -61,12 +63,56 @@ function copyPublicFiles() {
           }
         }
       }
+      
+      // Copy Hunspell language packs
+      const dictionariesDir = resolve(publicDir, 'dictionaries');
+      const distDictionariesDir = resolve(distDir, 'dictionaries');
+      
+      if (existsSync(dictionariesDir)) {
+        if (!existsSync(distDictionariesDir)) {
+          mkdirSync(distDictionariesDir, { recursive: true });
+        }
+        
+        const files = readdirSync(dictionariesDir);
+        for (const file of files) {
+          if (file.endsWith('.aff') || file.endsWith('.dic')) {
+            copyFileSync(
+              resolve(dictionariesDir, file),
+              resolve(distDictionariesDir, file)
+            );
+          }
+        }
+      }
+    },
+  };
+}
+
+// Plugin to compile src/wordlists/*.txt into binary word packs (see src/shared/wordpack.ts)
+function buildWordPacks() {
+  return {
+    name: 'build-word-packs',
+    writeBundle() {
+      const wordListsDir = resolve(__dirname, 'src/wordlists');
+      const distDictionariesDir = resolve(__dirname, 'dist/dictionaries');
+      
+      if (!existsSync(distDictionariesDir)) {
+        mkdirSync(distDictionariesDir, { recursive: true });
+      }
+      
+      for (const file of readdirSync(wordListsDir)) {
+        if (!file.endsWith('.txt')) continue;
+        
+        const words = parseWordList(readFileSync(resolve(wordListsDir, file), 'utf-8'));
+        const pack = encodeWordPack(words);
+        writeFileSync(resolve(distDictionariesDir, file.replace(/\.txt$/, '.dawg')), pack);
+        console.log(`FSA: Built word pack ${file} (${new Set(words).size} words, ${pack.length} bytes)`);
+      }
     },
   };
 }
 
 export default defineConfig({
-  plugins: [react(), copyPublicFiles(), inlineContentScript()],
+  plugins: [react(), copyPublicFiles(), buildWordPacks(), inlineContentScript()],
   build: {
     outDir: 'dist',
     emptyOutDir: true,
@@ -5,6 +5,10 @@ export default defineConfig({
     globals: true,
     environment: 'node',
     include: ['src/**/*.test.ts'],
+    setupFiles: ['./vitest.setup.ts'],
+    benchmark: {
+      include: ['src/**/*.bench.ts'],
+    },
   },
 });
 
@@ -0,0 +1,14 @@
+/**
+ * Fountain Spell Assist - Test Setup
+ *
+ * Registers the built-in word list the way the content script does, through
+ * the binary word pack the build produces.
+ */
+
+import { readFileSync } from 'fs';
+import { resolve } from 'path';
+import { parseWordList, encodeWordPack, decodeWordPack } from './src/shared/wordpack';
+import { registerBaseDictionary } from './src/shared/dictionary';
+
+const wordList = readFileSync(resolve(__dirname, 'src/wordlists/en.txt'), 'utf-8');
+registerBaseDictionary(decodeWordPack(encodeWordPack(parseWordList(wordList))));